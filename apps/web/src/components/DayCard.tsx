@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { getGameRecord, type GameRecord } from '@advent/progress';
+import { formatCountdown, getUnlockTime, isUnlocked } from '../games/schedule';
+import { useNow } from './useNow';
+
+interface DayCardProps {
+  day: number;
+  slug: string;
+  title: string;
+  description: string;
+  // Lock state at build time, used until the visitor's clock takes over
+  initiallyUnlocked: boolean;
+}
+
+export function DayCard({ day, slug, title, description, initiallyUnlocked }: DayCardProps) {
+  const now = useNow();
+  const [unlocked, setUnlocked] = useState(initiallyUnlocked);
+  // Progress lives in localStorage, so it's only read after mount
+  const [record, setRecord] = useState<GameRecord | null>(null);
+
+  useEffect(() => {
+    setRecord(getGameRecord(slug));
+  }, [slug]);
+
+  useEffect(() => {
+    if (now !== null) setUnlocked(isUnlocked(day, now));
+  }, [day, now]);
+
+  return (
+    <div className="group flex flex-col gap-8 md:flex-row">
+      <div className="flex flex-shrink-0 items-center justify-center gap-2 pt-6 md:w-24 md:flex-col md:items-end md:justify-start">
+        <span className="font-display text-neon-blue text-2xl drop-shadow-[0_0_8px_rgba(0,243,255,0.6)]">
+          Day {day}
+        </span>
+        {record && record.attempts > 0 && (
+          <span
+            className="font-mono text-sm text-blue-100/80"
+            title={`${record.attempts} ${record.attempts === 1 ? 'play' : 'plays'}`}
+          >
+            {record.completed ? '✅' : '🎮'} Best {record.bestScore ?? '–'}
+          </span>
+        )}
+      </div>
+
+      <div className="group/card relative flex-grow">
+        <div
+          className={`from-neon-blue to-neon-pink absolute -inset-[4px] bg-gradient-to-r via-purple-500 opacity-60 blur-sm transition-all duration-500 ${unlocked ? 'group-hover/card:opacity-100 group-hover/card:blur-md' : 'opacity-20'}`}
+        />
+
+        <div
+          className={`relative h-full border-2 border-white/10 bg-black/80 p-8 backdrop-blur-xl transition-all duration-500 ${unlocked ? 'group-hover/card:border-white/30 group-hover/card:bg-black/60' : 'opacity-80 grayscale'}`}
+        >
+          {!unlocked && (
+            <div className="absolute inset-0 z-10 flex items-center justify-center bg-black/80 backdrop-blur-[2px]">
+              <div className="flex flex-col items-center gap-4">
+                <span className="animate-pulse text-4xl">🔒</span>
+                <span className="font-display text-neon-pink text-lg tracking-widest">LOCKED</span>
+                {now !== null && (
+                  <span className="text-neon-blue font-mono text-xl">
+                    {formatCountdown(getUnlockTime(day) - now)}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-col items-center text-center">
+            <h3 className="font-display mb-4 text-2xl leading-snug tracking-wide text-white">
+              {title}
+            </h3>
+            <p className="mb-8 max-w-lg font-sans text-xl leading-relaxed text-blue-100/80">
+              {description}
+            </p>
+
+            {unlocked && (
+              <a
+                href={`/day/${day}`}
+                className="hover:bg-neon-blue font-display border-2 border-transparent bg-white px-6 py-4 text-xs uppercase tracking-widest text-black shadow-[4px_4px_0px_rgba(0,243,255,0.4)] transition-all hover:-translate-y-1 hover:border-black hover:shadow-[6px_6px_0px_rgba(0,243,255,0.6)]"
+              >
+                Play Game
+              </a>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import { Suspense, lazy, useCallback, useEffect, useMemo, useState } from 'react';
+import type { GameResult } from '@advent/contract';
+import { BOARDS } from '@advent/leaderboard';
+import { recordResult } from '@advent/progress';
+import { getDayKey, getSeedForDay } from '@advent/seed';
+import { getGame } from '../games/registry';
+import { getUnlockTime, isUnlocked } from '../games/schedule';
+import { LeaderboardPanel } from './LeaderboardPanel';
+import { LockedDay } from './LockedDay';
+import { useNow } from './useNow';
+
+interface GameHostProps {
+  day: number;
+}
+
+function Loading() {
+  return <div className="font-display animate-pulse text-white/60">Loading…</div>;
+}
+
+export function GameHost({ day }: GameHostProps) {
+  const now = useNow();
+  // The unlock check needs the visitor's clock, so nothing is decided until mount
+  const unlocked = now !== null && isUnlocked(day, now);
+  // Fixed when the day unlocks rather than at mount, so a tab left open on the countdown gets
+  // the new day's puzzle, and a game in progress keeps its puzzle across midnight
+  const [dayKey, setDayKey] = useState<string | null>(null);
+  useEffect(() => {
+    if (unlocked && dayKey === null) setDayKey(getDayKey(new Date()));
+  }, [unlocked, dayKey]);
+  const seed = dayKey === null ? null : getSeedForDay(getGame(day)?.slug ?? `day-${day}`, dayKey);
+  const [result, setResult] = useState<GameResult | null>(null);
+  const Game = useMemo(
+    () =>
+      lazy(async () => {
+        const manifest = getGame(day);
+        if (!manifest) throw new Error(`No game registered for day ${day}`);
+        const { Game } = await manifest.entry();
+        return { default: Game };
+      }),
+    [day]
+  );
+  const handleComplete = useCallback((finished: GameResult) => {
+    // Practice runs and repeats of a finished puzzle stay out of the player's progress
+    if (finished.ranked !== false) recordResult(finished, BOARDS[finished.gameId]);
+    setResult(finished);
+  }, []);
+  // Memoised so the once-a-second clock tick doesn't re-render the game
+  const game = useMemo(
+    () =>
+      seed === null ? null : (
+        <Suspense fallback={<Loading />}>
+          <Game seed={seed} dayKey={dayKey ?? undefined} onComplete={handleComplete} />
+        </Suspense>
+      ),
+    [Game, seed, dayKey, handleComplete]
+  );
+
+  if (now === null) return <Loading />;
+  if (!unlocked) return <LockedDay day={day} remainingMs={getUnlockTime(day) - now} />;
+  if (dayKey === null) return <Loading />;
+
+  return (
+    <div className="flex flex-col items-center gap-8">
+      {game}
+      {result && <LeaderboardPanel result={result} dayKey={dayKey} />}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import type { GameResult } from '@advent/contract';
+import {
+  getPlayer,
+  isRanked,
+  setPlayerName,
+  submitScore,
+  type Leaderboard,
+} from '@advent/leaderboard';
+
+interface LeaderboardPanelProps {
+  result: GameResult;
+  dayKey: string;
+}
+
+export function LeaderboardPanel({ result, dayKey }: LeaderboardPanelProps) {
+  // undefined while loading, null when the API isn't reachable
+  const [board, setBoard] = useState<Leaderboard | null | undefined>(undefined);
+  const [name, setName] = useState(() => getPlayer().name);
+  const [submissions, setSubmissions] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBoard(undefined);
+    submitScore(result, dayKey).then((next) => {
+      if (!cancelled) setBoard(next);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [result, dayKey, submissions]);
+
+  const rename = () => {
+    setName(setPlayerName(name).name);
+    setSubmissions((n) => n + 1);
+  };
+
+  if (board === undefined) {
+    return <div className="font-display animate-pulse text-white/60">Loading leaderboard…</div>;
+  }
+  if (board === null) {
+    return <div className="font-sans text-xl text-white/60">Leaderboard unavailable.</div>;
+  }
+
+  return (
+    <div className="w-full max-w-md border-2 border-white/10 bg-black/80 p-6 backdrop-blur-xl">
+      <h2 className="font-display text-neon-blue mb-4 text-center text-lg tracking-widest">
+        TODAY&apos;S LEADERBOARD
+      </h2>
+
+      {board.you ? (
+        <p className="mb-4 text-center font-sans text-xl text-blue-100">
+          You&apos;re #{board.you.rank} of {board.total}, ahead of {board.you.percentile}% of
+          players
+        </p>
+      ) : (
+        !isRanked(result) && (
+          <p className="mb-4 text-center font-sans text-xl text-blue-100">
+            {result.ranked === false
+              ? "Practice runs and replays aren't ranked. Only your first daily run makes the board!"
+              : 'Only wins are ranked. Try again tomorrow!'}
+          </p>
+        )
+      )}
+
+      <ol className="mb-6 space-y-1 font-mono">
+        {board.entries.map((entry, i) => (
+          <li key={i} className="flex justify-between gap-4">
+            <span className="text-white/60">#{entry.rank}</span>
+            <span className="flex-grow truncate text-white">{entry.name}</span>
+            <span className="text-neon-green">{entry.score}</span>
+          </li>
+        ))}
+      </ol>
+
+      {isRanked(result) && (
+        <div className="flex gap-2">
+          <input
+            value={name}
+            maxLength={20}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-grow border-2 border-white/20 bg-black px-3 py-2 font-sans text-lg text-white"
+            aria-label="Leaderboard name"
+          />
+          <button
+            onClick={rename}
+            className="font-display border-2 border-white/30 bg-white/10 px-4 text-sm uppercase tracking-widest transition-all hover:border-white hover:bg-white/20"
+          >
+            Save
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+import { formatCountdown, formatUnlockDate } from '../games/schedule';
+
+interface LockedDayProps {
+  day: number;
+  remainingMs: number;
+}
+
+export function LockedDay({ day, remainingMs }: LockedDayProps) {
+  return (
+    <div className="flex flex-col items-center gap-6 py-16 text-center">
+      <span className="animate-pulse text-6xl">🔒</span>
+      <h2 className="font-display text-neon-pink text-2xl tracking-widest">LOCKED</h2>
+      <p className="font-sans text-2xl text-blue-100">Come back on {formatUnlockDate(day)}!</p>
+      <p className="text-neon-blue font-mono text-4xl">{formatCountdown(remainingMs)}</p>
+    </div>
+  );
+}
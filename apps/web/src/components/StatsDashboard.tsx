@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { BOARDS } from '@advent/leaderboard';
+import {
+  getBestScore,
+  getStreaks,
+  getWinRate,
+  loadProgress,
+  type ProgressData,
+  type StoredResult,
+} from '@advent/progress';
+import { games, type GameManifest } from '../games/registry';
+import { buildHistogram } from '../games/stats';
+
+function SummaryTile({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="border-2 border-white/10 bg-black/80 p-6 text-center backdrop-blur-xl">
+      <div className="font-display text-neon-blue text-3xl drop-shadow-[0_0_8px_rgba(0,243,255,0.6)]">
+        {value}
+      </div>
+      <div className="mt-2 font-sans text-lg uppercase tracking-widest text-blue-100/80">
+        {label}
+      </div>
+    </div>
+  );
+}
+
+function GameStats({ game, results }: { game: GameManifest; results: StoredResult[] }) {
+  const bestScore = getBestScore(results, BOARDS[game.slug]);
+  const winRate = getWinRate(results);
+  const bars = buildHistogram(results, game.histogram);
+  const maxCount = Math.max(1, ...bars.map((bar) => bar.count));
+  const last = results[results.length - 1];
+  const lastBar = last ? buildHistogram([last], game.histogram).findIndex((b) => b.count > 0) : -1;
+
+  return (
+    <div className="border-2 border-white/10 bg-black/80 p-6 backdrop-blur-xl">
+      <div className="mb-4 flex items-baseline justify-between">
+        <h3 className="font-display text-lg tracking-wide text-white">
+          Day {game.day}: {game.title}
+        </h3>
+        <span className="font-mono text-sm text-white/60">{results.length} played</span>
+      </div>
+
+      <div className="mb-6 grid grid-cols-2 gap-4 font-sans text-xl">
+        <div>
+          <div className="text-sm uppercase tracking-widest text-white/60">Best</div>
+          <div className="text-neon-green">{bestScore ?? '–'}</div>
+        </div>
+        {!game.scoreOnly && (
+          <div>
+            <div className="text-sm uppercase tracking-widest text-white/60">Win rate</div>
+            <div className="text-neon-pink">
+              {winRate === null ? '–' : `${Math.round(winRate * 100)}%`}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="mb-2 text-sm uppercase tracking-widest text-white/60">
+        {game.histogram.label} distribution
+      </div>
+      <div className="space-y-1 font-mono text-sm">
+        {bars.map((bar, i) => (
+          <div key={bar.label} className="flex items-center gap-2">
+            <span className="w-12 shrink-0 text-right text-white/60">{bar.label}</span>
+            <div
+              className={`px-2 text-right text-black ${i === lastBar ? 'bg-neon-green' : 'bg-white/30'}`}
+              style={{ width: `${Math.max(8, (bar.count / maxCount) * 100)}%` }}
+            >
+              {bar.count}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function StatsDashboard() {
+  // Progress lives in localStorage, so nothing renders until mount
+  const [progress, setProgress] = useState<ProgressData | null>(null);
+
+  useEffect(() => {
+    setProgress(loadProgress());
+  }, []);
+
+  if (!progress) {
+    return <div className="font-display animate-pulse text-center text-white/60">Loading…</div>;
+  }
+
+  const streaks = getStreaks(progress);
+  const resultsFor = (slug: string) => progress.games[slug]?.results ?? [];
+
+  return (
+    <div className="space-y-8">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <SummaryTile label="Days played" value={streaks.daysPlayed} />
+        <SummaryTile label="Current streak" value={streaks.currentStreak} />
+        <SummaryTile label="Longest streak" value={streaks.longestStreak} />
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+        {games.map((game) => (
+          <GameStats key={game.slug} game={game} results={resultsFor(game.slug)} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+// Current time, refreshed every second. Null until mounted so SSR and hydration agree.
+export function useNow(intervalMs = 1000): number | null {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    setNow(Date.now());
+    const id = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(id);
+  }, [intervalMs]);
+
+  return now;
+}
@@ -1,7 +1,112 @@
-import { Game as Day1 } from '@games/game-01';
+import type { GameComponent } from '@advent/contract';
 
-export const gamesByDay = {
-  1: Day1,
-};
+export interface GameModule {
+  Game: GameComponent;
+}
 
-export type GameComponent = typeof Day1;
+// Wordle-style distribution of one stat from each finished game
+export interface StatHistogram {
+  label: string;
+  stat: string;
+  // Upper bound of each bar; values above the last bound share a final overflow bar
+  bounds: number[];
+  // Stored values are divided by this before bucketing, e.g. 1000 to show ms as seconds
+  scale?: number;
+  unit?: string;
+  // Only count games that were won, like Wordle's guess distribution
+  winsOnly?: boolean;
+}
+
+export interface GameManifest {
+  day: number;
+  slug: string;
+  title: string;
+  description: string;
+  controls: string[];
+  histogram: StatHistogram;
+  // Played for score alone, with no way to win, so there's no win rate to show
+  scoreOnly?: boolean;
+  // Loaded lazily so pages that only list games don't pull in every bundle
+  entry: () => Promise<GameModule>;
+}
+
+export const games: GameManifest[] = [
+  {
+    day: 1,
+    slug: 'snakle',
+    title: 'Snakle',
+    description:
+      'A cyberpunk twist on the classic Snake game. Eat, grow, and phase through walls with powerups!',
+    controls: ['Use Arrow Keys to Move', 'Eat Food to Grow • Avoid Obstacles • Find Powerups'],
+    histogram: { label: 'Fruits', stat: 'fruits', bounds: [0, 5, 10, 20, 40] },
+    scoreOnly: true,
+    entry: () => import('@games/game-01'),
+  },
+  {
+    day: 2,
+    slug: 'hay-girl',
+    title: 'Hay Girl',
+    description:
+      'Make hay while the sun shines! Cover your hay before bad weather destroys it in this resource management game.',
+    controls: ['Make Hay while it is sunny', 'Cover it in the barn before the weather turns'],
+    histogram: { label: 'Hay saved', stat: 'coveredHay', bounds: [10, 25, 50, 100, 200] },
+    entry: () => import('@games/game-02'),
+  },
+  {
+    day: 3,
+    slug: 'nomoji',
+    title: 'Nomoji',
+    description:
+      'Watch carefully as 50 emojis float around. Can you spot which one is missing? You have 2 guesses!',
+    controls: ['Click the emoji you think is missing', 'You have 2 guesses'],
+    histogram: {
+      label: 'Time',
+      stat: 'timeMs',
+      bounds: [5, 10, 20, 30, 60],
+      scale: 1000,
+      unit: 's',
+      winsOnly: true,
+    },
+    entry: () => import('@games/game-03'),
+  },
+  {
+    day: 4,
+    slug: 'froggle',
+    title: 'Froggle',
+    description:
+      'Guide your frog across busy roads and treacherous rivers! Jump on logs and turtles, but watch out for cars!',
+    controls: ['Use Arrow Keys or the buttons to Move', 'Avoid Cars • Jump on Logs & Turtles'],
+    histogram: {
+      label: 'Time',
+      stat: 'timeSec',
+      bounds: [15, 30, 45, 60, 90],
+      unit: 's',
+      winsOnly: true,
+    },
+    entry: () => import('@games/game-04'),
+  },
+  {
+    day: 5,
+    slug: 'mastermind',
+    title: 'Mastermind',
+    description:
+      'Crack the secret 4-color code in 10 tries or less! Use logic and deduction to solve the puzzle.',
+    controls: [
+      'Crack the color code in 10 tries or less',
+      'Red = Right Color & Position • White = Right Color, Wrong Position',
+    ],
+    histogram: {
+      label: 'Guesses',
+      stat: 'guesses',
+      bounds: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+      winsOnly: true,
+    },
+    entry: () => import('@games/game-05'),
+  },
+];
+
+export function getGame(day: number): GameManifest | undefined {
+  return games.find((game) => game.day === day);
+}
+
+export type { GameComponent };
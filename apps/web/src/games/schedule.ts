@@ -0,0 +1,66 @@
+export interface UnlockSchedule {
+  year: number;
+  month: number;
+  hour: number;
+  timeZone: string;
+}
+
+// Day N unlocks at `hour` o'clock on `month`/N in `timeZone`
+export const schedule: UnlockSchedule = {
+  year: 2025,
+  month: 12,
+  hour: 0,
+  timeZone: 'UTC',
+};
+
+// Set PUBLIC_UNLOCK_ALL=true (e.g. in .env.local) to play every day during development
+export const previewAllDays = import.meta.env.PUBLIC_UNLOCK_ALL === 'true';
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Offset of `timeZone` from UTC at the given instant, in ms
+function getTimeZoneOffset(time: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time));
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  );
+  return asUtc - Math.floor(time / 1000) * 1000;
+}
+
+export function getUnlockTime(day: number, config: UnlockSchedule = schedule): number {
+  const wallClock = Date.UTC(config.year, config.month - 1, day, config.hour);
+  const guess = wallClock - getTimeZoneOffset(wallClock, config.timeZone);
+  // Re-check in case the guess landed on the other side of a DST change
+  return wallClock - getTimeZoneOffset(guess, config.timeZone);
+}
+
+export function isUnlocked(day: number, now: number = Date.now()): boolean {
+  return previewAllDays || now >= getUnlockTime(day);
+}
+
+export function formatUnlockDate(day: number, config: UnlockSchedule = schedule): string {
+  return `${MONTHS[config.month - 1]} ${day}`;
+}
+
+export function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(ms / 1000));
+  const days = Math.floor(totalSeconds / 86400);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const clock = `${pad(Math.floor((totalSeconds % 86400) / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`;
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
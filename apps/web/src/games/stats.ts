@@ -0,0 +1,32 @@
+import type { StoredResult } from '@advent/progress';
+import type { StatHistogram } from './registry';
+
+export interface HistogramBar {
+  label: string;
+  count: number;
+}
+
+const formatBucket = (histogram: StatHistogram, index: number) => {
+  const { bounds, unit = '' } = histogram;
+  if (index === bounds.length) return `>${bounds[bounds.length - 1]}${unit}`;
+  // Consecutive whole numbers read better as the value itself (e.g. Mastermind guesses)
+  const consecutive = bounds.every((b, i) => i === 0 || b === bounds[i - 1] + 1);
+  return consecutive ? `${bounds[index]}${unit}` : `≤${bounds[index]}${unit}`;
+};
+
+export function buildHistogram(results: StoredResult[], histogram: StatHistogram): HistogramBar[] {
+  const counts = new Array(histogram.bounds.length + 1).fill(0);
+
+  for (const result of results) {
+    if (histogram.winsOnly && !result.won) continue;
+    const raw = result.stats[histogram.stat];
+    if (typeof raw !== 'number') continue;
+    const value = raw / (histogram.scale ?? 1);
+    const index = histogram.bounds.findIndex((bound) => value <= bound);
+    counts[index === -1 ? histogram.bounds.length : index]++;
+  }
+
+  return counts
+    .map((count, i) => ({ label: formatBucket(histogram, i), count }))
+    .filter((bar, i) => i < histogram.bounds.length || bar.count > 0);
+}
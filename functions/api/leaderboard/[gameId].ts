@@ -0,0 +1,2 @@
+// Handlers live in @advent/leaderboard so they are linted and type-checked with the rest
+export { onRequestGet, onRequestPost } from '../../../packages/leaderboard/src/server';
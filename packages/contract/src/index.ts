@@ -0,0 +1,66 @@
+import type { ComponentType } from 'react';
+
+// Per-game stats are free-form, but must stay JSON-serializable so the host can store them.
+// Declare them with `type` rather than `interface` so they satisfy the index signature.
+export type GameStats = Record<string, number | string | boolean | null>;
+
+// Everything needed to re-run a finished game from scratch. Deterministic games attach one to
+// their result so the leaderboard can recompute the score instead of trusting the client.
+export interface GameReplay<TInput = unknown> {
+  seed: number;
+  // Fixed simulation steps taken by the end, for games that run on a clock
+  ticks?: number;
+  inputs: TInput[];
+}
+
+// Longest replay anything will simulate, from a leaderboard submission or a shared link; about
+// two hours of Snakle at full speed
+export const MAX_REPLAY_TICKS = 100_000;
+
+// Games read at most one input a tick, so a longer list can only be padding
+export const MAX_REPLAY_INPUTS = MAX_REPLAY_TICKS;
+
+// What a replay proves: the score and outcome the rules arrive at
+export interface ReplayOutcome {
+  score: number;
+  won: boolean;
+}
+
+export interface GameResult<TStats extends GameStats = GameStats> {
+  gameId: string;
+  score: number;
+  won: boolean;
+  durationMs: number;
+  attempts: number;
+  stats: TStats;
+  shareText: string;
+  replay?: GameReplay;
+  // False for practice runs (other modes, custom seeds, replaying a finished puzzle) that
+  // shouldn't reach the leaderboard or the player's progress
+  ranked?: boolean;
+}
+
+export interface GameStartEvent {
+  gameId: string;
+  seed?: number;
+  startedAt: number;
+}
+
+export interface GameProgressEvent<TStats extends GameStats = GameStats> {
+  gameId: string;
+  score: number;
+  elapsedMs: number;
+  stats: TStats;
+}
+
+export interface GameProps<TStats extends GameStats = GameStats> {
+  seed?: number;
+  // The day the seed was picked for, so day-dependent details (puzzle number, difficulty) match it
+  dayKey?: string;
+  onStart?: (event: GameStartEvent) => void;
+  onProgress?: (event: GameProgressEvent<TStats>) => void;
+  onComplete?: (result: GameResult<TStats>) => void;
+}
+
+// Any game can be mounted by the host through this one props shape
+export type GameComponent = ComponentType<GameProps>;
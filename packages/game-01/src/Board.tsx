@@ -0,0 +1,165 @@
+import { useCallback, useMemo, useState } from 'react';
+import { clsx } from 'clsx';
+import { CanvasBoard } from './CanvasBoard';
+import { getTickInterval, type SnakeState } from './engine';
+import { getLivesLeft, getTimeLeftMs } from './modes';
+import { POWERUPS, getActiveEffects, isActive, remainingTicks, type PowerupType } from './powerups';
+import { GRID_SIZE, cellIndex, type Point } from './rules';
+
+const POWERUP_CELL_CLASSES: Record<PowerupType, string> = {
+  ghost: 'bg-white/80 shadow-[0_0_10px_rgba(255,255,255,0.7)]',
+  slowmo: 'bg-neon-blue shadow-[0_0_10px_rgba(0,243,255,0.7)]',
+  shrink: 'bg-neon-purple shadow-[0_0_10px_rgba(188,19,254,0.7)]',
+  double: 'bg-christmas-gold shadow-[0_0_10px_rgba(248,178,41,0.7)]',
+};
+
+const POWERUP_TEXT_CLASSES: Record<PowerupType, string> = {
+  ghost: 'text-white',
+  slowmo: 'text-neon-blue',
+  shrink: 'text-neon-purple',
+  double: 'text-christmas-gold',
+};
+
+export type BoardRenderer = 'canvas' | 'dom';
+
+const ALL_CELLS: Point[] = Array.from({ length: GRID_SIZE * GRID_SIZE }, (_, i) => ({
+  x: i % GRID_SIZE,
+  y: Math.floor(i / GRID_SIZE),
+}));
+
+// The DOM fallback: one div per cell, looked up in sets rather than by scanning the snake
+function DomBoard({ state }: { state: SnakeState }) {
+  const { snake, fruit, walls, powerup } = state;
+  const active = getActiveEffects(state.effects, state.tick);
+  const ghost = active.includes('ghost');
+  const wallCells = useMemo(() => new Set(walls.map(cellIndex)), [walls]);
+  const head = cellIndex(snake[0]);
+  const body = new Set(snake.slice(1).map(cellIndex));
+  const fruitCell = fruit ? cellIndex(fruit) : -1;
+  const powerupCell = powerup ? cellIndex(powerup.position) : -1;
+
+  return (
+    <div
+      className="grid h-full w-full gap-0.5"
+      style={{ gridTemplateColumns: `repeat(${GRID_SIZE}, minmax(0, 1fr))` }}
+    >
+      {ALL_CELLS.map((cell) => {
+        const index = cellIndex(cell);
+        const isSnakeHead = index === head;
+        const isSnakeBody = !isSnakeHead && body.has(index);
+        const isFruit = index === fruitCell;
+        const isWall = wallCells.has(index);
+        const isPowerup = index === powerupCell;
+        const isEmpty = !isSnakeBody && !isSnakeHead && !isFruit && !isWall && !isPowerup;
+
+        return (
+          <div
+            key={index}
+            className={clsx(
+              'flex h-full w-full items-center justify-center rounded-sm text-[0.6rem] leading-none transition-all duration-100',
+              {
+                'bg-gray-950': isEmpty,
+                'bg-neon-green z-10 shadow-[0_0_10px_rgba(0,255,157,0.6)]': isSnakeHead && !ghost,
+                'bg-neon-green/70': isSnakeBody && !ghost,
+                // A ghost snake is see-through, so walls and body show under it
+                'z-10 bg-white/50 shadow-[0_0_10px_rgba(255,255,255,0.5)]': isSnakeHead && ghost,
+                'bg-white/25': isSnakeBody && ghost,
+                'scale-75': (isSnakeHead || isSnakeBody) && active.includes('shrink'),
+                'bg-neon-pink scale-75 animate-pulse rounded-full shadow-[0_0_10px_rgba(255,0,60,0.6)]':
+                  isFruit && !active.includes('double'),
+                'bg-christmas-gold scale-90 animate-pulse rounded-full shadow-[0_0_12px_rgba(248,178,41,0.8)]':
+                  isFruit && active.includes('double'),
+                'border-neon-purple/40 bg-neon-purple/30 border': isWall,
+                'animate-bounce rounded-full': isPowerup,
+              },
+              isPowerup && powerup && POWERUP_CELL_CLASSES[powerup.type]
+            )}
+          >
+            {isPowerup && powerup && POWERUPS[powerup.type].emoji}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+// Board component. Draws on a canvas, and drops back to the DOM grid when asked to or when
+// the browser has no 2D canvas.
+export function Board({
+  state,
+  renderer = 'canvas',
+}: {
+  state: SnakeState;
+  renderer?: BoardRenderer;
+}) {
+  const [canvasFailed, setCanvasFailed] = useState(false);
+  const handleUnsupported = useCallback(() => setCanvasFailed(true), []);
+  const slowmo = isActive(state.effects, 'slowmo', state.tick);
+
+  return (
+    <div
+      className={clsx(
+        'rounded-lg border-4 bg-gray-900 p-1 shadow-2xl transition-colors',
+        slowmo ? 'border-neon-blue shadow-neon-blue/40' : 'border-neon-blue/30 shadow-neon-blue/20'
+      )}
+      style={{ width: 'min(90vw, 500px)', aspectRatio: '1/1' }}
+    >
+      {renderer === 'canvas' && !canvasFailed ? (
+        <CanvasBoard state={state} onUnsupported={handleUnsupported} />
+      ) : (
+        <DomBoard state={state} />
+      )}
+    </div>
+  );
+}
+
+// Fruit, then lives or deaths and any time limit, then a badge per active powerup with the
+// seconds left at the current tick rate
+export function Scoreboard({ state }: { state: SnakeState }) {
+  const livesLeft = getLivesLeft(state);
+  const timeLeft = getTimeLeftMs(state);
+
+  return (
+    <>
+      <div className="mb-6 flex gap-8 font-mono text-xl font-bold">
+        <div className="text-neon-green flex items-center gap-2">
+          <span>🍎</span> {state.fruits}
+        </div>
+        {livesLeft === null ? (
+          <div className="text-neon-pink flex items-center gap-2">
+            <span>💀</span> {state.deaths}
+          </div>
+        ) : (
+          <div className="text-neon-pink flex items-center gap-2">
+            <span>❤️</span> {livesLeft}
+          </div>
+        )}
+        {timeLeft !== null && (
+          <div className="text-neon-blue flex items-center gap-2">
+            <span>⏱️</span> {(timeLeft / 1000).toFixed(1)}s
+          </div>
+        )}
+      </div>
+
+      <div className="mb-4 flex h-8 gap-3 font-mono text-sm font-bold">
+        {getActiveEffects(state.effects, state.tick).map((type) => (
+          <div
+            key={type}
+            className={clsx(
+              'flex items-center gap-1 rounded-full border border-white/20 bg-white/5 px-3 py-1',
+              POWERUP_TEXT_CLASSES[type]
+            )}
+          >
+            <span>{POWERUPS[type].emoji}</span>
+            {POWERUPS[type].label}{' '}
+            {(
+              (remainingTicks(state.effects, type, state.tick) * getTickInterval(state)) /
+              1000
+            ).toFixed(1)}
+            s
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
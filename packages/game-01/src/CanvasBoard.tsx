@@ -0,0 +1,188 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { theme } from '@advent/ui';
+import type { SnakeState } from './engine';
+import { POWERUPS, getActiveEffects, type PowerupType } from './powerups';
+import { GRID_SIZE, type Point } from './rules';
+
+const { neon, christmas } = theme.colors;
+
+// The shared theme, which the DOM board gets through Tailwind. Empty cells are Tailwind's own
+// gray-950, which the theme doesn't carry.
+const COLORS = {
+  cell: '#030712',
+  green: neon.green,
+  pink: neon.pink,
+  purple: neon.purple,
+  blue: neon.blue,
+  gold: christmas.gold,
+  white: '#FFFFFF',
+};
+
+const POWERUP_COLORS: Record<PowerupType, string> = {
+  ghost: COLORS.white,
+  slowmo: COLORS.blue,
+  shrink: COLORS.purple,
+  double: COLORS.gold,
+};
+
+// Gap between cells, in CSS pixels, matching the DOM board's gap-0.5
+const GAP = 2;
+const GLOW = 10;
+
+type Surface = HTMLCanvasElement | OffscreenCanvas;
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const createSurface = (width: number, height: number): Surface => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Where cell (x, y) sits on a board `size` CSS pixels across
+const cellRect = (p: Point, size: number, inset = 0) => {
+  const pitch = (size + GAP) / GRID_SIZE;
+  const cell = pitch - GAP;
+  const shrink = (cell * inset) / 2;
+  return { x: p.x * pitch + shrink, y: p.y * pitch + shrink, size: cell - shrink * 2 };
+};
+
+function fillCell(ctx: Context2D, p: Point, size: number, color: string, inset = 0) {
+  const r = cellRect(p, size, inset);
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  // roundRect is recent; older Safari gets square cells
+  if ('roundRect' in ctx) ctx.roundRect(r.x, r.y, r.size, r.size, 2);
+  else (ctx as Context2D).rect(r.x, r.y, r.size, r.size);
+  ctx.fill();
+}
+
+function fillDot(ctx: Context2D, p: Point, size: number, color: string, scale: number) {
+  const r = cellRect(p, size);
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.arc(r.x + r.size / 2, r.y + r.size / 2, (r.size * scale) / 2, 0, Math.PI * 2);
+  ctx.fill();
+}
+
+const withGlow = (ctx: Context2D, color: string, draw: () => void) => {
+  ctx.save();
+  ctx.shadowColor = color;
+  ctx.shadowBlur = GLOW;
+  draw();
+  ctx.restore();
+};
+
+// Empty cells and walls only change with the level, so they're drawn once per size
+function drawStatic(walls: Point[], size: number, dpr: number): Surface | null {
+  const surface = createSurface(Math.round(size * dpr), Math.round(size * dpr));
+  const ctx = surface.getContext('2d') as Context2D | null;
+  if (!ctx) return null;
+  ctx.scale(dpr, dpr);
+
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) fillCell(ctx, { x, y }, size, COLORS.cell);
+  }
+
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = `${COLORS.purple}66`;
+  for (const wall of walls) {
+    fillCell(ctx, wall, size, `${COLORS.purple}4D`);
+    const r = cellRect(wall, size);
+    ctx.strokeRect(r.x + 0.5, r.y + 0.5, r.size - 1, r.size - 1);
+  }
+  return surface;
+}
+
+// Everything that moves: O(snake length) per frame, whatever the size of the level
+function drawDynamic(ctx: CanvasRenderingContext2D, state: SnakeState, size: number) {
+  const active = getActiveEffects(state.effects, state.tick);
+  const ghost = active.includes('ghost');
+  const inset = active.includes('shrink') ? 0.25 : 0;
+  const [head, ...body] = state.snake;
+
+  if (state.fruit) {
+    const fruit = state.fruit;
+    const color = active.includes('double') ? COLORS.gold : COLORS.pink;
+    withGlow(ctx, color, () =>
+      fillDot(ctx, fruit, size, color, active.includes('double') ? 0.9 : 0.75)
+    );
+  }
+
+  if (state.powerup) {
+    const { type, position } = state.powerup;
+    withGlow(ctx, POWERUP_COLORS[type], () =>
+      fillDot(ctx, position, size, POWERUP_COLORS[type], 1)
+    );
+    const r = cellRect(position, size);
+    ctx.font = `${r.size * 0.7}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(POWERUPS[type].emoji, r.x + r.size / 2, r.y + r.size / 2 + 1);
+  }
+
+  // A ghost snake is see-through, so walls and body show under it
+  const bodyColor = ghost ? 'rgba(255,255,255,0.25)' : 'rgba(0,255,157,0.7)';
+  for (const segment of body) fillCell(ctx, segment, size, bodyColor, inset);
+
+  const headColor = ghost ? 'rgba(255,255,255,0.5)' : COLORS.green;
+  withGlow(ctx, ghost ? COLORS.white : COLORS.green, () =>
+    fillCell(ctx, head, size, headColor, inset)
+  );
+}
+
+// Draws the board on a canvas sized to its box and the screen's pixel density.
+// Calls onUnsupported if the browser won't give it a 2D context.
+export function CanvasBoard({
+  state,
+  onUnsupported,
+}: {
+  state: SnakeState;
+  onUnsupported: () => void;
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState(0);
+  const [dpr, setDpr] = useState(1);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const measure = () => {
+      setSize(canvas.clientWidth);
+      setDpr(window.devicePixelRatio || 1);
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  const staticLayer = useMemo(
+    () => (size > 0 ? drawStatic(state.walls, size, dpr) : null),
+    [state.walls, size, dpr]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx || !staticLayer) {
+      onUnsupported();
+      return;
+    }
+
+    const pixels = Math.round(size * dpr);
+    if (canvas.width !== pixels) {
+      canvas.width = pixels;
+      canvas.height = pixels;
+    }
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, pixels, pixels);
+    ctx.drawImage(staticLayer, 0, 0);
+    ctx.scale(dpr, dpr);
+    drawDynamic(ctx, state, size);
+  }, [state, staticLayer, size, dpr, onUnsupported]);
+
+  return <canvas ref={canvasRef} className="block h-full w-full" />;
+}
@@ -1,275 +1,117 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { clsx } from 'clsx';
-import { Share2, Play } from 'lucide-react';
-
-export interface GameProps {
-  seed?: number;
-  onComplete?: (score: number) => void;
-}
-
-// Constants
-const GRID_SIZE = 20;
-const INITIAL_SPEED = 150;
-const MIN_SPEED = 80;
-const SPEED_DECREMENT = 2;
-
-type Point = { x: number; y: number };
-type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
-
-const DIRECTIONS: Record<Direction, Point> = {
-  UP: { x: 0, y: -1 },
-  DOWN: { x: 0, y: 1 },
-  LEFT: { x: -1, y: 0 },
-  RIGHT: { x: 1, y: 0 },
+import { Share2, Play, Film, Link } from 'lucide-react';
+import type { GameProps, GameResult } from '@advent/contract';
+import { getPuzzleNumberForDay, resolveDayKey, resolveSeed } from '@advent/seed';
+import { Board, Scoreboard } from './Board';
+import {
+  SnakeEngine,
+  getScore,
+  getTickInterval,
+  isDeath,
+  type SnakeState,
+  type SnakleInput,
+} from './engine';
+import { getDifficultyForDay, getPattern } from './levels';
+import { MODES, MODE_IDS, getLivesLeft, type SnakleMode } from './modes';
+import { POWERUPS, POWERUP_TYPES } from './powerups';
+import { getReplayUrl, readReplayHash, type SnakleRecording } from './replay';
+import { ReplayViewer } from './ReplayViewer';
+import { queueTurn } from './input';
+import type { Direction, Point } from './rules';
+
+export type SnakleStats = {
+  fruits: number;
+  deaths: number;
+  powerups: number;
+  mode: SnakleMode;
 };
 
-const INITIAL_SNAKE: Point[] = [
-  { x: 10, y: 10 },
-  { x: 10, y: 11 },
-  { x: 10, y: 12 },
-];
-
-// Seeded RNG
-class SeededRNG {
-  private seed: number;
-
-  constructor(seedStr: string) {
-    let h = 0xdeadbeef;
-    for (let i = 0; i < seedStr.length; i++) {
-      h = Math.imul(h ^ seedStr.charCodeAt(i), 2654435761);
-    }
-    this.seed = (h ^ (h >>> 16)) >>> 0;
-  }
-
-  next(): number {
-    this.seed = (this.seed * 1664525 + 1013904223) % 4294967296;
-    return this.seed / 4294967296;
-  }
-
-  nextInt(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min + 1)) + min;
-  }
-}
+export const GAME_ID = 'snakle';
 
-// Helper to check grid connectivity
-function isConnected(walls: Point[], gridSize: number): boolean {
-  const grid = Array(gridSize)
-    .fill(null)
-    .map(() => Array(gridSize).fill(false));
-  walls.forEach((w) => {
-    if (w.x >= 0 && w.x < gridSize && w.y >= 0 && w.y < gridSize) {
-      grid[w.y][w.x] = true;
-    }
-  });
-
-  let start: Point | null = null;
-  let freeCount = 0;
-  for (let y = 0; y < gridSize; y++) {
-    for (let x = 0; x < gridSize; x++) {
-      if (!grid[y][x]) {
-        freeCount++;
-        if (!start) start = { x, y };
-      }
-    }
-  }
+// CRASHED is the pause before a respawn; GAMEOVER is a result, final unless the mode is endless
+type GameState = 'START' | 'COUNTDOWN' | 'PLAYING' | 'PAUSED' | 'CRASHED' | 'GAMEOVER';
 
-  if (freeCount === 0) return false;
-  if (!start) return false;
+// Don't try to catch up on more than this after the tab was in the background
+const MAX_FRAME_MS = 250;
 
-  const queue: Point[] = [start];
-  const visited = new Set<string>();
-  visited.add(`${start.x},${start.y}`);
-  let visitedCount = 0;
+// Fixed-timestep loop: real frame time is fed through an accumulator, and `step` runs once for
+// every whole tick interval. The interval is read again after each step, since eating speeds
+// the snake up. A step returns false to stop the loop until it's started again.
+function useFixedTimestep(step: () => boolean, getInterval: () => number, running: boolean) {
+  const stepRef = useRef(step);
+  const intervalRef = useRef(getInterval);
 
-  while (queue.length > 0) {
-    const p = queue.shift()!;
-    visitedCount++;
-
-    const neighbors = [
-      { x: p.x, y: p.y - 1 },
-      { x: p.x, y: p.y + 1 },
-      { x: p.x - 1, y: p.y },
-      { x: p.x + 1, y: p.y },
-    ];
-
-    for (const n of neighbors) {
-      const nx = (n.x + gridSize) % gridSize;
-      const ny = (n.y + gridSize) % gridSize;
-
-      if (!grid[ny][nx] && !visited.has(`${nx},${ny}`)) {
-        visited.add(`${nx},${ny}`);
-        queue.push({ x: nx, y: ny });
-      }
-    }
-  }
-
-  return visitedCount === freeCount;
-}
+  useEffect(() => {
+    stepRef.current = step;
+    intervalRef.current = getInterval;
+  }, [step, getInterval]);
 
-// Generate daily level
-function generateLevel(seedStr: string): Point[] {
-  let attempt = 0;
-
-  while (attempt < 100) {
-    const rng = new SeededRNG(`${seedStr}-${attempt}`);
-    const generatedWalls: Point[] = [];
-    const patternType = rng.nextInt(0, 3);
-
-    if (patternType === 0) {
-      const count = rng.nextInt(10, 25);
-      for (let i = 0; i < count; i++) {
-        generatedWalls.push({
-          x: rng.nextInt(0, GRID_SIZE - 1),
-          y: rng.nextInt(0, GRID_SIZE - 1),
-        });
-      }
-    } else if (patternType === 1) {
-      const isVertical = rng.next() > 0.5;
-      const count = rng.nextInt(2, 4);
-      for (let c = 0; c < count; c++) {
-        const fixed = rng.nextInt(2, GRID_SIZE - 3);
-        for (let i = 0; i < GRID_SIZE; i++) {
-          if (rng.next() > 0.2) {
-            generatedWalls.push(isVertical ? { x: fixed, y: i } : { x: i, y: fixed });
-          }
-        }
-      }
-    } else if (patternType === 2) {
-      const inset = rng.nextInt(3, 6);
-      for (let x = inset; x < GRID_SIZE - inset; x++) {
-        generatedWalls.push({ x, y: inset });
-        generatedWalls.push({ x, y: GRID_SIZE - inset - 1 });
-      }
-      for (let y = inset; y < GRID_SIZE - inset; y++) {
-        generatedWalls.push({ x: inset, y });
-        generatedWalls.push({ x: GRID_SIZE - inset - 1, y });
-      }
-      const gapCount = rng.nextInt(2, 4);
-      for (let i = 0; i < gapCount; i++) {
-        if (generatedWalls.length > 0) {
-          const idx = rng.nextInt(0, generatedWalls.length - 1);
-          generatedWalls.splice(idx, 1);
-          if (idx < generatedWalls.length) generatedWalls.splice(idx, 1);
-        }
-      }
-    } else {
-      let x = Math.floor(GRID_SIZE / 2);
-      let y = Math.floor(GRID_SIZE / 2);
-      let steps = 1;
-      let dir = 0;
-      const dirs = [
-        { x: 0, y: -1 },
-        { x: 1, y: 0 },
-        { x: 0, y: 1 },
-        { x: -1, y: 0 },
-      ];
-
-      for (let i = 0; i < GRID_SIZE * 2; i++) {
-        for (let s = 0; s < steps; s++) {
-          x += dirs[dir].x;
-          y += dirs[dir].y;
-          if (x >= 0 && x < GRID_SIZE && y >= 0 && y < GRID_SIZE) {
-            if (rng.next() > 0.3) {
-              generatedWalls.push({ x, y });
-            }
-          }
+  useEffect(() => {
+    if (!running) return;
+    let request = 0;
+    let previousTime: number | undefined;
+    let accumulator = 0;
+
+    const animate = (frameTime: number) => {
+      if (previousTime !== undefined) {
+        accumulator += Math.min(frameTime - previousTime, MAX_FRAME_MS);
+        while (accumulator >= intervalRef.current()) {
+          accumulator -= intervalRef.current();
+          if (!stepRef.current()) return;
         }
-        dir = (dir + 1) % 4;
-        if (i % 2 === 0) steps++;
       }
-    }
-
-    const finalWalls = generatedWalls.filter((w) => !(w.x === 10 && w.y >= 10 && w.y <= 12));
+      previousTime = frameTime;
+      request = requestAnimationFrame(animate);
+    };
 
-    if (isConnected(finalWalls, GRID_SIZE)) {
-      return finalWalls;
-    }
+    request = requestAnimationFrame(animate);
+    return () => cancelAnimationFrame(request);
+  }, [running]);
+}
 
-    attempt++;
+function getShareText(state: SnakeState, dayKey: string) {
+  const { label, emoji, shareLines } = MODES[state.mode];
+  const { collected } = state;
+  const lines = [
+    `Snakle #${getPuzzleNumberForDay(dayKey)} ${emoji} ${label}`,
+    ...shareLines(state),
+  ];
+  if (collected.length > 0) {
+    const counts = POWERUP_TYPES.filter((type) => collected.includes(type)).map(
+      (type) => `${POWERUPS[type].emoji}×${collected.filter((t) => t === type).length}`
+    );
+    lines.push(`⚡ ${collected.length} Powerups ${counts.join(' ')}`);
   }
-
-  return [];
+  return lines.join('\n');
 }
 
-// Board component
-function Board({ snake, fruit, walls }: { snake: Point[]; fruit: Point | null; walls: Point[] }) {
-  const cells = Array.from({ length: GRID_SIZE * GRID_SIZE }, (_, i) => ({
-    x: i % GRID_SIZE,
-    y: Math.floor(i / GRID_SIZE),
-  }));
-
-  return (
-    <div
-      className="border-neon-blue/30 shadow-neon-blue/20 grid gap-0.5 rounded-lg border-4 bg-gray-900 p-1 shadow-2xl"
-      style={{
-        gridTemplateColumns: `repeat(${GRID_SIZE}, minmax(0, 1fr))`,
-        width: 'min(90vw, 500px)',
-        aspectRatio: '1/1',
-      }}
-    >
-      {cells.map((cell) => {
-        const isSnakeHead = snake[0].x === cell.x && snake[0].y === cell.y;
-        const isSnakeBody = snake.some(
-          (s, index) => index !== 0 && s.x === cell.x && s.y === cell.y
-        );
-        const isFruit = fruit?.x === cell.x && fruit?.y === cell.y;
-        const isWall = walls.some((w) => w.x === cell.x && w.y === cell.y);
-
-        return (
-          <div
-            key={`${cell.x}-${cell.y}`}
-            className={clsx('h-full w-full rounded-sm transition-all duration-100', {
-              'bg-gray-950': !isSnakeBody && !isSnakeHead && !isFruit && !isWall,
-              'bg-neon-green z-10 shadow-[0_0_10px_rgba(0,255,157,0.6)]': isSnakeHead,
-              'bg-neon-green/70': isSnakeBody,
-              'bg-neon-pink scale-75 animate-pulse rounded-full shadow-[0_0_10px_rgba(255,0,60,0.6)]':
-                isFruit,
-              'border-neon-purple/40 bg-neon-purple/30 border': isWall,
-            })}
-          />
-        );
-      })}
-    </div>
-  );
-}
+export function Game({ seed, dayKey, onStart, onProgress, onComplete }: GameProps<SnakleStats>) {
+  const gameSeed = useMemo(() => resolveSeed(GAME_ID, seed), [seed]);
+  const gameDay = useMemo(() => resolveDayKey(dayKey), [dayKey]);
 
-// useGameLoop hook
-function useGameLoop(callback: () => void, delay: number | null) {
-  const savedCallback = useRef(callback);
+  // Harder level patterns come round later in the week, by the seed's day like the leaderboard
+  const [difficulty] = useState(() => getDifficultyForDay(gameDay));
 
-  useEffect(() => {
-    savedCallback.current = callback;
-  }, [callback]);
+  // The engine owns the rules; the ref is what the loop reads, the state is what renders
+  const [engineState, setEngineState] = useState(() => SnakeEngine.create(gameSeed, difficulty));
+  const engine = useRef<SnakeState>(engineState);
+  const { level, mode, collected, fruits, points, deaths: lives } = engineState;
+  const levelPattern = getPattern(level);
+  const score = getScore(engineState);
 
-  useEffect(() => {
-    if (delay !== null) {
-      const id = setInterval(() => {
-        savedCallback.current();
-      }, delay);
-      return () => clearInterval(id);
-    }
-  }, [delay]);
-}
-
-export function Game({ seed, onComplete }: GameProps) {
-  const walls = useMemo(() => {
-    const dateSeed = seed
-      ? seed.toString()
-      : `${new Date().getFullYear()}-${new Date().getMonth() + 1}-${new Date().getDate()}`;
-    return generateLevel(dateSeed);
-  }, [seed]);
-
-  const [snake, setSnake] = useState<Point[]>(INITIAL_SNAKE);
-  const [direction, setDirection] = useState<Direction>('UP');
-  const [isAlive, setIsAlive] = useState(true);
-  const [fruit, setFruit] = useState<Point | null>(null);
-  const [score, setScore] = useState(0);
-  const [lives, setLives] = useState(0);
-  const [speed, setSpeed] = useState(INITIAL_SPEED);
-  const [gameState, setGameState] = useState<'START' | 'COUNTDOWN' | 'PLAYING' | 'GAMEOVER'>(
-    'START'
-  );
+  const [gameState, setGameState] = useState<GameState>('START');
   const [countdown, setCountdown] = useState(3);
+  const startedAt = useRef<number | null>(null);
+  const reportedScore = useRef(0);
+  // Turns asked for but not played yet; each tick hands the oldest one to the engine
+  const turns = useRef<Direction[]>([]);
+  // Every turn the engine accepted, by tick: enough to replay the run
+  const inputs = useRef<SnakleInput[]>([]);
+  // The run up to the latest crash, which is what a replay link shares
+  const [lastRun, setLastRun] = useState<SnakleRecording | null>(null);
+  // A replay being watched, either from this session or opened from a #replay= link
+  const [watching, setWatching] = useState<SnakleRecording | null>(null);
 
   const touchStart = useRef<Point | null>(null);
   const minSwipeDistance = 30;
@@ -296,29 +138,12 @@ export function Game({ seed, onComplete }: GameProps) {
     touchStart.current = null;
   };
 
-  const spawnFruit = useCallback(() => {
-    let newFruit: Point;
-    let attempts = 0;
-    while (attempts < 100) {
-      newFruit = {
-        x: Math.floor(Math.random() * GRID_SIZE),
-        y: Math.floor(Math.random() * GRID_SIZE),
-      };
-      const onSnake = snake.some((s) => s.x === newFruit.x && s.y === newFruit.y);
-      const onWall = walls.some((w) => w.x === newFruit.x && w.y === newFruit.y);
-      if (!onSnake && !onWall) {
-        setFruit(newFruit);
-        return;
-      }
-      attempts++;
-    }
-  }, [snake, walls]);
-
-  useEffect(() => {
-    if (!fruit && walls.length > 0) spawnFruit();
-  }, [walls, fruit, spawnFruit]);
+  const updateEngine = useCallback((next: SnakeState) => {
+    engine.current = next;
+    setEngineState(next);
+  }, []);
 
-  const startGame = () => {
+  const startCountdown = useCallback(() => {
     setGameState('COUNTDOWN');
     setCountdown(3);
     let count = 3;
@@ -330,115 +155,108 @@ export function Game({ seed, onComplete }: GameProps) {
         setGameState('PLAYING');
       }
     }, 1000);
-  };
-
-  const moveSnake = useCallback(() => {
-    if (!isAlive) return;
-
-    setSnake((prevSnake) => {
-      const head = prevSnake[0];
-      const newHead = {
-        x: head.x + DIRECTIONS[direction].x,
-        y: head.y + DIRECTIONS[direction].y,
-      };
-
-      if (newHead.x < 0) newHead.x = GRID_SIZE - 1;
-      if (newHead.x >= GRID_SIZE) newHead.x = 0;
-      if (newHead.y < 0) newHead.y = GRID_SIZE - 1;
-      if (newHead.y >= GRID_SIZE) newHead.y = 0;
-
-      if (prevSnake.some((segment) => segment.x === newHead.x && segment.y === newHead.y)) {
-        setIsAlive(false);
-        return prevSnake;
-      }
-
-      return [newHead, ...prevSnake.slice(0, -1)];
-    });
-  }, [direction, isAlive]);
-
-  const changeDirection = useCallback((newDirection: Direction) => {
-    setDirection((prev) => {
-      const isOpposite =
-        (newDirection === 'UP' && prev === 'DOWN') ||
-        (newDirection === 'DOWN' && prev === 'UP') ||
-        (newDirection === 'LEFT' && prev === 'RIGHT') ||
-        (newDirection === 'RIGHT' && prev === 'LEFT');
-
-      if (isOpposite) return prev;
-      return newDirection;
-    });
   }, []);
 
-  const grow = useCallback(() => {
-    setSnake((prev) => [...prev, prev[prev.length - 1]]);
-  }, []);
+  const recordRun = useCallback(
+    (end: SnakeState): SnakleRecording => ({
+      seed: gameSeed,
+      difficulty,
+      mode: end.mode,
+      ticks: end.tick,
+      inputs: [...inputs.current],
+    }),
+    [gameSeed, difficulty]
+  );
 
-  const resetSnake = useCallback(() => {
-    setSnake(INITIAL_SNAKE);
-    setDirection('UP');
-    setIsAlive(true);
-  }, []);
+  // A fresh run in the chosen mode, back on the start screen
+  const resetRun = (nextMode: SnakleMode) => {
+    inputs.current = [];
+    turns.current = [];
+    reportedScore.current = 0;
+    updateEngine(SnakeEngine.create(gameSeed, difficulty, nextMode));
+    setGameState('START');
+  };
+
+  const startGame = () => {
+    startedAt.current = Date.now();
+    onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: startedAt.current });
+    startCountdown();
+  };
 
-  useGameLoop(
-    () => {
+  const changeDirection = useCallback(
+    (newDirection: Direction) => {
       if (gameState !== 'PLAYING') return;
-      moveSnake();
+      turns.current = queueTurn(turns.current, newDirection, engine.current.direction);
     },
-    gameState === 'PLAYING' ? speed : null
+    [gameState]
   );
 
-  useEffect(() => {
-    if (!isAlive && gameState === 'PLAYING') {
-      setLives((l) => l + 1);
+  // One tick. Returns false once the snake has hit something and the loop should stop.
+  const step = useCallback(() => {
+    const current = engine.current;
+    const [turn, ...rest] = turns.current;
+    turns.current = rest;
+    const next = SnakeEngine.tick(current, turn);
+    if (next === current) return false;
+
+    if (turn) inputs.current.push({ tick: current.tick, direction: turn });
+    updateEngine(next);
+    if (!next.finished && !isDeath(next)) return true;
+
+    // Whatever was queued was meant for a snake that's no longer there
+    turns.current = [];
+    if (next.finished) {
+      setLastRun(recordRun(next));
       setGameState('GAMEOVER');
-
+    } else if (next.event === 'wall' && !MODES[next.mode].reportsEachCrash) {
+      startCountdown();
+    } else {
+      if (MODES[next.mode].reportsEachCrash) {
+        setLastRun(recordRun(next));
+        setGameState('GAMEOVER');
+      } else {
+        setGameState('CRASHED');
+      }
       setTimeout(() => {
-        resetSnake();
-        setGameState('COUNTDOWN');
-        setCountdown(3);
-        let count = 3;
-        const timer = setInterval(() => {
-          count--;
-          setCountdown(count);
-          if (count === 0) {
-            clearInterval(timer);
-            setGameState('PLAYING');
-          }
-        }, 1000);
+        // A wall already put the snake back at the start
+        if (!engine.current.alive) updateEngine(SnakeEngine.respawn(engine.current));
+        startCountdown();
       }, 1000);
     }
+    return false;
+  }, [recordRun, updateEngine, startCountdown]);
 
-    if (gameState !== 'PLAYING') return;
+  const getInterval = useCallback(() => getTickInterval(engine.current), []);
 
-    const head = snake[0];
+  // The game holds still while a replay is on screen
+  const isLive = gameState === 'PLAYING' && watching === null;
 
-    if (fruit && head.x === fruit.x && head.y === fruit.y) {
-      grow();
-      setScore((s) => s + 1);
-      setSpeed((s) => Math.max(MIN_SPEED, s - SPEED_DECREMENT));
-      spawnFruit();
-    }
+  useFixedTimestep(step, getInterval, isLive);
 
-    if (walls.some((w) => w.x === head.x && w.y === head.y)) {
-      setLives((l) => l + 1);
-      setGameState('COUNTDOWN');
-      resetSnake();
-      setCountdown(3);
-      let count = 3;
-      const timer = setInterval(() => {
-        count--;
-        setCountdown(count);
-        if (count === 0) {
-          clearInterval(timer);
-          setGameState('PLAYING');
-        }
-      }, 1000);
-    }
-  }, [snake, isAlive, fruit, walls, grow, spawnFruit, resetSnake, gameState]);
+  const togglePause = useCallback(() => {
+    setGameState((state) =>
+      state === 'PLAYING' ? 'PAUSED' : state === 'PAUSED' ? 'PLAYING' : state
+    );
+  }, []);
+
+  // Nobody can steer a snake in a tab they aren't looking at
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.hidden) setGameState((state) => (state === 'PLAYING' ? 'PAUSED' : state));
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (gameState !== 'PLAYING') return;
+      if (watching) return;
+      if (e.key === 'p' || e.key === 'P' || e.key === 'Escape') {
+        e.preventDefault();
+        togglePause();
+        return;
+      }
+      if (!isLive) return;
       switch (e.key) {
         case 'ArrowUp':
           e.preventDefault();
@@ -460,54 +278,167 @@ export function Game({ seed, onComplete }: GameProps) {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [changeDirection, gameState]);
+  }, [changeDirection, togglePause, isLive, watching]);
+
+  // Read after mount, and again whenever someone pastes a different replay link
+  useEffect(() => {
+    const openFromHash = () => {
+      const recording = readReplayHash(window.location.hash);
+      if (recording) setWatching(recording);
+    };
+    openFromHash();
+    window.addEventListener('hashchange', openFromHash);
+    return () => window.removeEventListener('hashchange', openFromHash);
+  }, []);
+
+  const closeReplay = () => {
+    if (readReplayHash(window.location.hash)) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    }
+    setWatching(null);
+  };
+
+  useEffect(() => {
+    if (points === reportedScore.current || startedAt.current === null) return;
+    reportedScore.current = points;
+    onProgress?.({
+      gameId: GAME_ID,
+      score,
+      elapsedMs: Date.now() - startedAt.current,
+      stats: { fruits, deaths: lives, powerups: collected.length, mode },
+    });
+  }, [points, score, fruits, lives, collected, mode, onProgress]);
 
   useEffect(() => {
     if (gameState === 'GAMEOVER' && onComplete) {
-      onComplete(score * 100);
+      const result: GameResult<SnakleStats> = {
+        gameId: GAME_ID,
+        score: getScore(engine.current),
+        won: false,
+        durationMs: startedAt.current === null ? 0 : Date.now() - startedAt.current,
+        attempts: lives,
+        stats: { fruits, deaths: lives, powerups: collected.length, mode },
+        shareText: getShareText(engine.current, gameDay),
+        replay: { seed: gameSeed, ticks: engine.current.tick, inputs: [...inputs.current] },
+        ranked: MODES[mode].ranked,
+      };
+      onComplete(result);
     }
-  }, [gameState, score, onComplete]);
+  }, [gameState, gameSeed, gameDay, fruits, lives, collected, mode, onComplete]);
 
   const handleShare = async () => {
-    const text = `Snakle #${new Date().toISOString().split('T')[0]}\n🍎 ${score} Fruits\n💀 ${lives} Lives`;
     try {
-      await navigator.clipboard.writeText(text);
+      await navigator.clipboard.writeText(getShareText(engineState, gameDay));
       alert('Copied to clipboard!');
     } catch (err) {
       console.error('Failed to copy', err);
     }
   };
 
+  const handleCopyReplay = async () => {
+    if (!lastRun) return;
+    try {
+      await navigator.clipboard.writeText(getReplayUrl(lastRun, window.location));
+      alert('Replay link copied!');
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
+  };
+
+  if (watching) return <ReplayViewer recording={watching} onClose={closeReplay} />;
+
   return (
     <div
       className="flex min-h-screen touch-none flex-col items-center justify-center bg-gradient-to-b from-gray-900 to-black text-white"
       onTouchStart={onTouchStart}
       onTouchEnd={onTouchEnd}
     >
-      <div className="mb-6 flex gap-8 font-mono text-xl font-bold">
-        <div className="text-neon-green flex items-center gap-2">
-          <span>🍎</span> {score}
-        </div>
-        <div className="text-neon-pink flex items-center gap-2">
-          <span>💀</span> {lives}
-        </div>
-      </div>
+      <Scoreboard state={engineState} />
 
       <div className="relative">
-        <Board snake={snake} fruit={fruit} walls={walls} />
+        <Board state={engineState} />
 
         {gameState === 'START' && (
           <div className="absolute inset-0 z-20 flex flex-col items-center justify-center rounded-lg bg-black/80 backdrop-blur-sm">
             <h1 className="from-neon-green to-neon-blue mb-8 bg-gradient-to-r bg-clip-text text-5xl font-bold text-transparent">
               SNAKLE
             </h1>
+            <div className="mb-6 flex gap-2">
+              {MODE_IDS.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => resetRun(id)}
+                  title={MODES[id].description}
+                  className={clsx(
+                    'rounded-full border px-3 py-1 font-mono text-sm transition-colors',
+                    id === mode
+                      ? 'border-neon-blue bg-neon-blue/20 text-neon-blue'
+                      : 'border-white/20 text-gray-400 hover:text-white'
+                  )}
+                >
+                  {MODES[id].emoji} {MODES[id].label}
+                </button>
+              ))}
+            </div>
+            <p className="-mt-3 mb-6 text-sm text-gray-400">{MODES[mode].description}</p>
             <button
               onClick={startGame}
               className="bg-neon-green shadow-neon-green/30 hover:bg-neon-blue flex transform items-center gap-2 rounded-full px-8 py-3 text-xl font-bold text-black shadow-lg transition-all hover:scale-105"
             >
               <Play size={24} /> PLAY
             </button>
-            <p className="mt-4 text-sm text-gray-400">Swipe or use Arrow Keys</p>
+            <p className="mt-4 text-sm text-gray-400">Swipe or use Arrow Keys • P to pause</p>
+            {levelPattern && (
+              <p className="text-neon-purple mt-2 font-mono text-sm">
+                Level: {levelPattern.name} {'★'.repeat(levelPattern.difficulty)}
+                <span className="text-white/20">{'★'.repeat(5 - levelPattern.difficulty)}</span>
+              </p>
+            )}
+          </div>
+        )}
+
+        {gameState === 'PAUSED' && (
+          <div className="absolute inset-0 z-20 flex flex-col items-center justify-center rounded-lg bg-black/70 backdrop-blur-sm">
+            <h2 className="mb-6 text-4xl font-bold tracking-widest text-white">PAUSED</h2>
+            <button
+              onClick={togglePause}
+              className="bg-neon-green shadow-neon-green/30 hover:bg-neon-blue flex transform items-center gap-2 rounded-full px-6 py-2 text-lg font-bold text-black shadow-lg transition-all hover:scale-105"
+            >
+              <Play size={20} /> RESUME
+            </button>
+            <p className="mt-4 text-sm text-gray-400">or press P / Esc</p>
+          </div>
+        )}
+
+        {(gameState === 'CRASHED' || (gameState === 'GAMEOVER' && !engineState.finished)) && (
+          <div className="absolute inset-0 z-20 flex flex-col items-center justify-center bg-black/40">
+            <div className="text-neon-pink text-6xl font-bold drop-shadow-[0_0_15px_rgba(255,0,60,0.6)]">
+              CRASH!
+            </div>
+            {getLivesLeft(engineState) !== null && (
+              <p className="mt-2 font-mono text-lg text-white">
+                {getLivesLeft(engineState)} {getLivesLeft(engineState) === 1 ? 'life' : 'lives'}{' '}
+                left
+              </p>
+            )}
+          </div>
+        )}
+
+        {gameState === 'GAMEOVER' && engineState.finished && (
+          <div className="absolute inset-0 z-20 flex flex-col items-center justify-center rounded-lg bg-black/80 backdrop-blur-sm">
+            <h2 className="text-neon-pink mb-2 text-4xl font-bold tracking-widest">
+              {MODES[mode].timeLimitMs !== null ? "TIME'S UP" : 'GAME OVER'}
+            </h2>
+            <p className="mb-1 font-mono text-lg text-gray-400">
+              {MODES[mode].emoji} {MODES[mode].label}
+            </p>
+            <p className="text-neon-green mb-6 font-mono text-3xl font-bold">{score} pts</p>
+            <button
+              onClick={() => resetRun(mode)}
+              className="bg-neon-green shadow-neon-green/30 hover:bg-neon-blue flex transform items-center gap-2 rounded-full px-6 py-2 text-lg font-bold text-black shadow-lg transition-all hover:scale-105"
+            >
+              <Play size={20} /> PLAY AGAIN
+            </button>
           </div>
         )}
 
@@ -527,6 +458,22 @@ export function Game({ seed, onComplete }: GameProps) {
         >
           <Share2 size={16} /> Share Result
         </button>
+        {lastRun && (
+          <>
+            <button
+              onClick={() => setWatching(lastRun)}
+              className="border-neon-blue/30 flex items-center gap-2 rounded-lg border bg-gray-800 px-4 py-2 text-sm font-medium transition-colors hover:bg-gray-700"
+            >
+              <Film size={16} /> Watch Replay
+            </button>
+            <button
+              onClick={handleCopyReplay}
+              className="border-neon-blue/30 flex items-center gap-2 rounded-lg border bg-gray-800 px-4 py-2 text-sm font-medium transition-colors hover:bg-gray-700"
+            >
+              <Link size={16} /> Copy Replay Link
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
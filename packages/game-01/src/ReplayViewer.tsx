@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react';
+import { clsx } from 'clsx';
+import { Pause, Play, X } from 'lucide-react';
+import { Board, Scoreboard } from './Board';
+import { getTickInterval, playSnakle, type SnakeState } from './engine';
+import type { SnakleRecording } from './replay';
+
+const SPEEDS = [1, 2, 4];
+
+// Hold on a crash for as long as the game itself does before respawning
+const CRASH_PAUSE_MS = 1000;
+
+// Frames are worked out this many at a time between renders, so a long run never blocks the tab
+const FRAMES_PER_CHUNK = 500;
+
+// Every state of the run, so scrubbing is just picking a frame. They fill in a chunk at a time;
+// `loaded` counts them so far and `done` turns true once the run has played out.
+function useReplayFrames(recording: SnakleRecording) {
+  const frames = useRef<SnakeState[]>([]);
+  const [loaded, setLoaded] = useState(0);
+  const [done, setDone] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const run = playSnakle(recording, recording.difficulty, recording.mode);
+    const played: SnakeState[] = [];
+    frames.current = played;
+    let id: ReturnType<typeof setTimeout>;
+
+    const playChunk = () => {
+      try {
+        for (let i = 0; i < FRAMES_PER_CHUNK; i++) {
+          const next = run.next();
+          if (next.done) {
+            setLoaded(played.length);
+            setDone(true);
+            return;
+          }
+          played.push(next.value);
+        }
+      } catch (err) {
+        console.error('Replay could not be played back', err);
+        setFailed(true);
+        return;
+      }
+      setLoaded(played.length);
+      id = setTimeout(playChunk, 0);
+    };
+
+    id = setTimeout(playChunk, 0);
+    return () => {
+      clearTimeout(id);
+      setLoaded(0);
+      setDone(false);
+      setFailed(false);
+    };
+  }, [recording]);
+
+  return { frames: frames.current, loaded, done, failed };
+}
+
+export function ReplayViewer({
+  recording,
+  onClose,
+}: {
+  recording: SnakleRecording;
+  onClose: () => void;
+}) {
+  const { frames, loaded, done, failed } = useReplayFrames(recording);
+
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const lastIndex = Math.max(loaded - 1, 0);
+  // Only flips when playback catches up with loading, so each new chunk doesn't restart the timer
+  const hasNext = index < lastIndex;
+
+  useEffect(() => {
+    if (failed || !playing) return;
+    if (!hasNext) {
+      // Still loading: wait here for the next chunk rather than stopping
+      if (done) setPlaying(false);
+      return;
+    }
+    const frame = frames[index];
+    const delay = frame.alive ? getTickInterval(frame) : CRASH_PAUSE_MS;
+    const id = setTimeout(() => setIndex(index + 1), delay / speed);
+    return () => clearTimeout(id);
+  }, [frames, index, hasNext, done, failed, playing, speed]);
+
+  const togglePlaying = () => {
+    if (!playing && done && index >= lastIndex) setIndex(0);
+    setPlaying(!playing);
+  };
+
+  if (failed) {
+    return (
+      <div className="flex min-h-screen flex-col items-center justify-center gap-4 text-white">
+        <p className="text-neon-pink text-xl">This replay can&apos;t be played back.</p>
+        <button onClick={onClose} className="text-sm text-gray-400 underline hover:text-white">
+          Back to the game
+        </button>
+      </div>
+    );
+  }
+
+  const frame = loaded > 0 ? frames[Math.min(index, lastIndex)] : undefined;
+  if (!frame) {
+    return (
+      <div className="flex min-h-screen items-center justify-center font-mono text-white/60">
+        Loading replay…
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex min-h-screen flex-col items-center justify-center bg-gradient-to-b from-gray-900 to-black text-white">
+      <div className="mb-4 flex items-center gap-4">
+        <h2 className="text-neon-blue font-mono text-2xl font-bold tracking-widest">REPLAY</h2>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-1 text-sm text-gray-400 hover:text-white"
+        >
+          <X size={16} /> Close
+        </button>
+      </div>
+
+      <Scoreboard state={frame} />
+      <Board state={frame} />
+
+      <div className="mt-6 flex w-[min(90vw,500px)] flex-col gap-3">
+        <input
+          type="range"
+          min={0}
+          max={lastIndex}
+          value={index}
+          onChange={(e) => setIndex(Number(e.target.value))}
+          className="accent-neon-blue w-full"
+          aria-label="Replay position"
+        />
+        <div className="flex items-center justify-between font-mono text-sm">
+          <button
+            onClick={togglePlaying}
+            className="bg-neon-green hover:bg-neon-blue flex items-center gap-2 rounded-full px-4 py-1 font-bold text-black transition-colors"
+          >
+            {playing ? <Pause size={16} /> : <Play size={16} />}
+            {playing ? 'Pause' : 'Play'}
+          </button>
+          <span className="text-gray-400">
+            Tick {frame.tick} / {recording.ticks}
+            {!done && ' · loading'}
+          </span>
+          <div className="flex gap-1">
+            {SPEEDS.map((s) => (
+              <button
+                key={s}
+                onClick={() => setSpeed(s)}
+                className={clsx(
+                  'rounded px-2 py-1 transition-colors',
+                  s === speed ? 'bg-neon-blue text-black' : 'bg-gray-800 hover:bg-gray-700'
+                )}
+              >
+                {s}×
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { getSeedForDay } from '@advent/seed';
+import { SnakeEngine, isResultPoint, replaySnakle, type SnakeState } from './engine';
+import { getDifficultyForDay } from './levels';
+import type { SnakleMode } from './modes';
+
+// A day whose level puts a wall straight ahead of the start, so a snake left alone runs into it
+const DAY = '2025-12-04';
+const SEED = getSeedForDay('snakle', DAY);
+const DIFFICULTY = getDifficultyForDay(DAY);
+
+// Ticks with no turns until the snake first dies
+function runUntilDeath(mode: SnakleMode): SnakeState {
+  let state = SnakeEngine.create(SEED, DIFFICULTY, mode);
+  while (state.alive && state.event !== 'wall' && state.tick < 1000) {
+    state = SnakeEngine.tick(state);
+  }
+  return state;
+}
+
+describe('isResultPoint', () => {
+  it('reports a wall in endless mode, like a crash', () => {
+    const death = runUntilDeath('endless');
+
+    expect(death.event).toBe('wall');
+    expect(isResultPoint(death)).toBe(true);
+    expect(
+      replaySnakle({ seed: SEED, ticks: death.tick, inputs: [] }, DIFFICULTY, 'endless')
+    ).toEqual({ score: 0, won: false });
+  });
+
+  it('keeps a daily run going after a wall', () => {
+    const death = runUntilDeath('daily');
+
+    expect(death.event).toBe('wall');
+    expect(isResultPoint(death)).toBe(false);
+  });
+});
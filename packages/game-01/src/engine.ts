@@ -0,0 +1,278 @@
+import type { GameReplay, ReplayOutcome } from '@advent/contract';
+import { Rng } from '@advent/rng';
+import {
+  INITIAL_DIRECTION,
+  INITIAL_SNAKE,
+  advanceSnake,
+  growSnake,
+  hitsWall,
+  isOpposite,
+  pickFreeCell,
+  samePoint,
+  type Direction,
+  type Point,
+} from './rules';
+import {
+  POWERUPS,
+  POWERUP_CHANCE,
+  POWERUP_LIFETIME,
+  POWERUP_TYPES,
+  SLOWMO_FACTOR,
+  isActive,
+  shrinkSnake,
+  type ActiveEffects,
+  type BoardPowerup,
+  type PowerupType,
+} from './powerups';
+import { ANY_DIFFICULTY, generateLevel, type DifficultyRange } from './levels';
+import { MODES, isRunOver, type SnakleMode } from './modes';
+
+export const INITIAL_SPEED = 150;
+export const MIN_SPEED = 80;
+export const SPEED_DECREMENT = 2;
+
+// What the last tick did, for the host to react to (countdowns, game over, sounds)
+export type SnakeEvent = 'ate' | 'powerup' | 'wall' | 'crash';
+
+export interface SnakeState {
+  seed: number;
+  mode: SnakleMode;
+  // Id of the level pattern the walls were drawn from
+  level: string;
+  walls: Point[];
+  snake: Point[];
+  direction: Direction;
+  fruit: Point | null;
+  // How many fruits have been placed; each one is drawn from its own seeded stream
+  fruitsSpawned: number;
+  powerup: BoardPowerup | null;
+  effects: ActiveEffects;
+  // Powerups picked up, in order
+  collected: PowerupType[];
+  fruits: number;
+  // Fruit eaten, with double-points fruit counted twice
+  points: number;
+  deaths: number;
+  // Milliseconds per tick. Only the host's clock uses it, the rules are tick-based.
+  speed: number;
+  tick: number;
+  // Game time: the sum of the intervals of the ticks played, so it replays exactly
+  elapsedMs: number;
+  alive: boolean;
+  // The mode's end condition has been met; nothing moves after this
+  finished: boolean;
+  event: SnakeEvent | null;
+}
+
+// A turn handed to the engine on the tick with this number
+export interface SnakleInput {
+  tick: number;
+  direction: Direction;
+}
+
+const placeFruit = (state: SnakeState): SnakeState => ({
+  ...state,
+  fruit: pickFreeCell(
+    new Rng(state.seed).fork(`fruit:${state.fruitsSpawned}`),
+    state.snake,
+    state.walls,
+    state.powerup ? [state.powerup.position] : []
+  ),
+  fruitsSpawned: state.fruitsSpawned + 1,
+});
+
+// Each eaten fruit may drop a powerup, rolled from a stream keyed to that fruit
+function maybeDropPowerup(state: SnakeState): SnakeState {
+  if (state.powerup) return state;
+  const rng = new Rng(state.seed).fork(`powerup:${state.fruitsSpawned}`);
+  if (!rng.chance(POWERUP_CHANCE)) return state;
+
+  const type = rng.weightedPick(
+    POWERUP_TYPES.map((value) => ({ value, weight: POWERUPS[value].weight }))
+  );
+  const position = pickFreeCell(rng, state.snake, state.walls, state.fruit ? [state.fruit] : []);
+  if (!position) return state;
+
+  return { ...state, powerup: { type, position, expiresAt: state.tick + POWERUP_LIFETIME } };
+}
+
+function activate(state: SnakeState, type: PowerupType): SnakeState {
+  return {
+    ...state,
+    snake: type === 'shrink' ? shrinkSnake(state.snake) : state.snake,
+    effects: { ...state.effects, [type]: state.tick + POWERUPS[type].duration },
+    collected: [...state.collected, type],
+    powerup: null,
+    event: 'powerup',
+  };
+}
+
+// The difficulty comes from the day's schedule, so a replay has to be created with the same one
+function create(
+  seed: number,
+  difficulty: DifficultyRange = ANY_DIFFICULTY,
+  mode: SnakleMode = 'daily'
+): SnakeState {
+  const { pattern, walls } = generateLevel(seed, difficulty);
+  return placeFruit({
+    seed,
+    mode,
+    level: pattern,
+    walls,
+    snake: INITIAL_SNAKE,
+    direction: INITIAL_DIRECTION,
+    fruit: null,
+    fruitsSpawned: 0,
+    powerup: null,
+    effects: {},
+    collected: [],
+    fruits: 0,
+    points: 0,
+    deaths: 0,
+    speed: INITIAL_SPEED,
+    tick: 0,
+    elapsedMs: 0,
+    alive: true,
+    finished: false,
+    event: null,
+  });
+}
+
+// Back to the start position after a death; fruit, score and speed carry over, effects don't
+function respawn(state: SnakeState): SnakeState {
+  return {
+    ...state,
+    snake: INITIAL_SNAKE,
+    direction: INITIAL_DIRECTION,
+    effects: {},
+    alive: true,
+    event: null,
+  };
+}
+
+// One move. `input` is the direction requested for this move; reversing into the neck is ignored.
+function tick(state: SnakeState, input?: Direction): SnakeState {
+  if (!state.alive || state.finished) return state;
+  const result = move(state, input);
+  return isRunOver(result) ? { ...result, finished: true } : result;
+}
+
+function move(state: SnakeState, input?: Direction): SnakeState {
+  const direction = input && !isOpposite(input, state.direction) ? input : state.direction;
+  const next: SnakeState = {
+    ...state,
+    direction,
+    tick: state.tick + 1,
+    elapsedMs: state.elapsedMs + getTickInterval(state),
+    event: null,
+  };
+  // Effects are judged as of the tick being played, so one picked up now starts next tick
+  const active = (type: PowerupType) => isActive(state.effects, type, state.tick);
+  const ghost = active('ghost');
+
+  const moved = advanceSnake(state.snake, direction, ghost);
+  if (moved.crashed) {
+    return { ...next, alive: false, deaths: state.deaths + 1, event: 'crash' };
+  }
+
+  let result: SnakeState = { ...next, snake: moved.snake };
+  const head = moved.snake[0];
+
+  if (result.powerup && result.tick >= result.powerup.expiresAt) {
+    result = { ...result, powerup: null };
+  }
+
+  if (result.fruit && samePoint(head, result.fruit)) {
+    result = placeFruit({
+      ...result,
+      snake: active('shrink') ? moved.snake : growSnake(moved.snake),
+      fruits: result.fruits + 1,
+      points: result.points + (active('double') ? 2 : 1),
+      speed: Math.max(MIN_SPEED, result.speed - SPEED_DECREMENT),
+      event: 'ate',
+    });
+    result = maybeDropPowerup(result);
+  }
+
+  if (result.powerup && samePoint(head, result.powerup.position)) {
+    result = activate(result, result.powerup.type);
+  }
+
+  if (!ghost && hitsWall(head, result.walls)) {
+    result = { ...respawn(result), deaths: result.deaths + 1, event: 'wall' };
+  }
+
+  return result;
+}
+
+// Snakle's rules as pure functions: state and input in, next state out. No timers, no React,
+// so the same code drives the component, the leaderboard's replay check and anything headless.
+export const SnakeEngine = { create, tick, respawn };
+
+export const getScore = (state: SnakeState) => MODES[state.mode].score(state);
+
+// How long the host should wait before the next tick
+export const getTickInterval = (state: SnakeState) =>
+  isActive(state.effects, 'slowmo', state.tick)
+    ? Math.round(state.speed * SLOWMO_FACTOR)
+    : state.speed;
+
+// A wall puts the snake straight back at the start, so it's the event that marks the death
+export const isDeath = (state: SnakeState) => !state.alive || state.event === 'wall';
+
+// A result is reported here: when the mode's run is over, or on any death in endless mode
+export const isResultPoint = (state: SnakeState) =>
+  state.finished || (isDeath(state) && MODES[state.mode].reportsEachCrash);
+
+// Re-runs a game tick by tick, yielding every state along the way: the new game, each tick,
+// and the respawn after every crash that didn't end things. The replay has to stop on exactly
+// the tick a result was reported.
+export function* playSnakle(
+  replay: GameReplay<SnakleInput>,
+  difficulty: DifficultyRange = ANY_DIFFICULTY,
+  mode: SnakleMode = 'daily'
+): Generator<SnakeState> {
+  const { ticks, inputs } = replay;
+  if (ticks === undefined || !Number.isInteger(ticks) || ticks <= 0) {
+    throw new Error('Snakle replays need a tick count');
+  }
+
+  let state = SnakeEngine.create(replay.seed, difficulty, mode);
+  let next = 0;
+  yield state;
+
+  while (state.tick < ticks) {
+    let input: Direction | undefined;
+    if (next < inputs.length && inputs[next].tick === state.tick) {
+      input = inputs[next++].direction;
+      if (!['UP', 'DOWN', 'LEFT', 'RIGHT'].includes(input)) {
+        throw new Error(`Unknown direction ${input}`);
+      }
+    }
+
+    state = SnakeEngine.tick(state, input);
+    yield state;
+
+    if (state.tick === ticks && isResultPoint(state)) {
+      if (next !== inputs.length) throw new Error('Inputs continue past the end of the game');
+      return;
+    }
+    if (state.finished) throw new Error('Replay continues after the game ended');
+    if (!state.alive) {
+      state = SnakeEngine.respawn(state);
+      yield state;
+    }
+  }
+
+  throw new Error('Replay does not end on a result');
+}
+
+export function replaySnakle(
+  replay: GameReplay<SnakleInput>,
+  difficulty: DifficultyRange = ANY_DIFFICULTY,
+  mode: SnakleMode = 'daily'
+): ReplayOutcome {
+  let last: SnakeState | undefined;
+  for (const state of playSnakle(replay, difficulty, mode)) last = state;
+  return { score: getScore(last!), won: false };
+}
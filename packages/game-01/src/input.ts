@@ -0,0 +1,13 @@
+import { isOpposite, type Direction } from './rules';
+
+// Enough for a quick double turn plus one, without letting mashed keys play out for seconds
+export const MAX_QUEUED_TURNS = 3;
+
+// Turns asked for but not played yet, oldest first; the loop hands one to each tick. A new turn
+// is checked against the last one queued, not the snake's current heading, so UP then LEFT
+// while moving RIGHT plays as two turns instead of the second one replacing the first.
+export function queueTurn(queue: Direction[], turn: Direction, heading: Direction): Direction[] {
+  const last = queue[queue.length - 1] ?? heading;
+  if (queue.length >= MAX_QUEUED_TURNS || turn === last || isOpposite(turn, last)) return queue;
+  return [...queue, turn];
+}
@@ -0,0 +1,336 @@
+import { Rng } from '@advent/rng';
+import {
+  DIRECTIONS,
+  GRID_SIZE,
+  INITIAL_DIRECTION,
+  INITIAL_SNAKE,
+  cellIndex,
+  isOpposite,
+  reachableCells,
+  samePoint,
+  type Direction,
+  type Point,
+} from './rules';
+
+// Difficulty runs from 1 (a few obstacles) to 5 (a full maze)
+export interface DifficultyRange {
+  min: number;
+  max: number;
+}
+
+export interface LevelPattern {
+  id: string;
+  name: string;
+  difficulty: number;
+  // Raw walls; they may run off the board or repeat, generateLevel tidies them up
+  build: (rng: Rng) => Point[];
+}
+
+export interface Level {
+  pattern: string;
+  walls: Point[];
+}
+
+// Free cells kept open straight ahead of the starting head, so the first moves are never a wall
+export const START_CORRIDOR_LENGTH = 5;
+export const START_CORRIDOR: Point[] = Array.from(
+  { length: START_CORRIDOR_LENGTH + INITIAL_SNAKE.length },
+  (_, i) => ({ x: INITIAL_SNAKE[0].x, y: INITIAL_SNAKE[0].y - START_CORRIDOR_LENGTH + i })
+);
+
+// Share of the board a level may cover
+export const MIN_WALL_DENSITY = 0.02;
+export const MAX_WALL_DENSITY = 0.3;
+
+const MAX_ATTEMPTS = 100;
+const LAST = GRID_SIZE - 1;
+
+// Monday is gentle and the week ramps up to Saturday; Sunday can be anything. Indexed like
+// Date.getUTCDay, Sunday first.
+export const WEEKDAY_SCHEDULE: DifficultyRange[] = [
+  { min: 1, max: 5 },
+  { min: 1, max: 2 },
+  { min: 1, max: 3 },
+  { min: 2, max: 3 },
+  { min: 2, max: 4 },
+  { min: 3, max: 4 },
+  { min: 4, max: 5 },
+];
+
+export const ANY_DIFFICULTY: DifficultyRange = { min: 1, max: 5 };
+
+export function getDifficultyForDay(dayKey: string): DifficultyRange {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return WEEKDAY_SCHEDULE[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+const line = (from: Point, to: Point): Point[] => {
+  const length = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+  return Array.from({ length: length + 1 }, (_, i) => ({
+    x: from.x + Math.sign(to.x - from.x) * i,
+    y: from.y + Math.sign(to.y - from.y) * i,
+  }));
+};
+
+const mirrorX = (p: Point): Point => ({ x: LAST - p.x, y: p.y });
+const mirrorY = (p: Point): Point => ({ x: p.x, y: LAST - p.y });
+
+// A short straight run of walls starting at a random cell
+const segment = (rng: Rng, maxX: number, maxY: number) => {
+  const from = { x: rng.int(0, maxX), y: rng.int(0, maxY) };
+  const length = rng.int(1, 4);
+  return rng.chance(0.5)
+    ? line(from, { x: from.x + length, y: from.y })
+    : line(from, { x: from.x, y: from.y + length });
+};
+
+function pillars(rng: Rng): Point[] {
+  const spacing = rng.int(4, 5);
+  const offset = rng.int(1, spacing - 1);
+  const walls: Point[] = [];
+  for (let y = offset; y < GRID_SIZE; y += spacing) {
+    for (let x = offset; x < GRID_SIZE; x += spacing) walls.push({ x, y });
+  }
+  return walls;
+}
+
+function scatter(rng: Rng): Point[] {
+  return Array.from({ length: rng.int(10, 25) }, () => ({
+    x: rng.int(0, LAST),
+    y: rng.int(0, LAST),
+  }));
+}
+
+function stripes(rng: Rng): Point[] {
+  const isVertical = rng.chance(0.5);
+  const walls: Point[] = [];
+  for (let c = rng.int(2, 4); c > 0; c--) {
+    const fixed = rng.int(2, GRID_SIZE - 3);
+    for (let i = 0; i < GRID_SIZE; i++) {
+      if (rng.next() > 0.2) walls.push(isVertical ? { x: fixed, y: i } : { x: i, y: fixed });
+    }
+  }
+  return walls;
+}
+
+// A ring with a few doorways knocked through it
+function box(rng: Rng): Point[] {
+  const inset = rng.int(3, 6);
+  const far = LAST - inset;
+  const walls = [
+    ...line({ x: inset, y: inset }, { x: far, y: inset }),
+    ...line({ x: far, y: inset }, { x: far, y: far }),
+    ...line({ x: far, y: far }, { x: inset, y: far }),
+    ...line({ x: inset, y: far }, { x: inset, y: inset }),
+  ];
+  for (let gaps = rng.int(2, 4); gaps > 0; gaps--) {
+    walls.splice(rng.int(0, walls.length - 2), 2);
+  }
+  return walls;
+}
+
+// Square spiral out from the centre, with two-cell lanes between the arms
+function spiral(rng: Rng): Point[] {
+  const turns = [DIRECTIONS.UP, DIRECTIONS.RIGHT, DIRECTIONS.DOWN, DIRECTIONS.LEFT];
+  const walls: Point[] = [];
+  let p = { x: GRID_SIZE / 2, y: GRID_SIZE / 2 };
+  let steps = 2;
+
+  for (let i = 0; i < 12; i++) {
+    const d = turns[i % 4];
+    for (let s = 0; s < steps; s++) {
+      p = { x: p.x + d.x, y: p.y + d.y };
+      if (rng.next() > 0.3) walls.push(p);
+    }
+    if (i % 2 === 1) steps += 3;
+  }
+  return walls;
+}
+
+// Blocks in the top-left quarter, reflected into the other three
+function symmetric(rng: Rng): Point[] {
+  const quarter = Array.from({ length: rng.int(4, 7) }, () =>
+    segment(rng, GRID_SIZE / 2 - 3, GRID_SIZE / 2 - 3)
+  ).flat();
+  return quarter.flatMap((p) => [p, mirrorX(p), mirrorY(p), mirrorX(mirrorY(p))]);
+}
+
+// A design on the left half, reflected onto the right
+function mirrored(rng: Rng): Point[] {
+  const half = Array.from({ length: rng.int(5, 9) }, () =>
+    segment(rng, GRID_SIZE / 2 - 2, LAST)
+  ).flat();
+  return half.flatMap((p) => [p, mirrorX(p)]);
+}
+
+// A 3x3 grid of rooms with a two-cell door in every wall. The board wraps, so the first
+// row and column of walls sit on the edges.
+function rooms(rng: Rng): Point[] {
+  const xs = [0, rng.int(5, 8), rng.int(12, 15), GRID_SIZE];
+  const ys = [0, rng.int(5, 8), rng.int(12, 15), GRID_SIZE];
+  const walls: Point[] = [];
+
+  for (let i = 0; i < 3; i++) {
+    for (let j = 0; j < 3; j++) {
+      // The wall along the top of room (i, j), then the one down its left side
+      const top = line({ x: xs[i] + 1, y: ys[j] }, { x: xs[i + 1] - 1, y: ys[j] });
+      const left = line({ x: xs[i], y: ys[j] + 1 }, { x: xs[i], y: ys[j + 1] - 1 });
+      for (const wall of [top, left]) {
+        const door = rng.int(0, wall.length - 2);
+        walls.push(...wall.filter((_, k) => k !== door && k !== door + 1));
+      }
+      walls.push({ x: xs[i], y: ys[j] });
+    }
+  }
+  return walls;
+}
+
+// A maze of 4x4 cells (three-cell corridors) carved as a spanning tree over the wrapping board,
+// with a few extra walls knocked out so there's more than one way round
+function maze(rng: Rng): Point[] {
+  const CELL = 4;
+  const cells = GRID_SIZE / CELL;
+  const wrap = (n: number) => (n + cells) % cells;
+  const open = new Set<number>();
+  // The three wall cells between cell (cx, cy) and its neighbour in direction d
+  const gap = (cx: number, cy: number, d: Point): Point[] => {
+    if (d.x !== 0) {
+      const x = wrap(cx + Math.max(d.x, 0)) * CELL;
+      return line({ x, y: cy * CELL + 1 }, { x, y: cy * CELL + CELL - 1 });
+    }
+    const y = wrap(cy + Math.max(d.y, 0)) * CELL;
+    return line({ x: cx * CELL + 1, y }, { x: cx * CELL + CELL - 1, y });
+  };
+  const knock = (cx: number, cy: number, d: Point) =>
+    gap(cx, cy, d).forEach((p) => open.add(cellIndex(p)));
+
+  const visited = new Set([0]);
+  const stack = [{ x: 0, y: 0 }];
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const options = Object.values(DIRECTIONS).filter(
+      (d) => !visited.has(wrap(current.y + d.y) * cells + wrap(current.x + d.x))
+    );
+    if (options.length === 0) {
+      stack.pop();
+      continue;
+    }
+    const d = rng.pick(options);
+    const next = { x: wrap(current.x + d.x), y: wrap(current.y + d.y) };
+    knock(current.x, current.y, d);
+    visited.add(next.y * cells + next.x);
+    stack.push(next);
+  }
+
+  for (let extra = rng.int(3, 6); extra > 0; extra--) {
+    knock(rng.int(0, cells - 1), rng.int(0, cells - 1), rng.pick(Object.values(DIRECTIONS)));
+  }
+
+  const walls: Point[] = [];
+  for (let y = 0; y < GRID_SIZE; y++) {
+    for (let x = 0; x < GRID_SIZE; x++) {
+      const onGrid = x % CELL === 0 || y % CELL === 0;
+      if (onGrid && !open.has(cellIndex({ x, y }))) walls.push({ x, y });
+    }
+  }
+  return walls;
+}
+
+// Add a pattern here and the schedule starts picking it on days that cover its difficulty
+export const LEVEL_PATTERNS: LevelPattern[] = [
+  { id: 'pillars', name: 'Pillars', difficulty: 1, build: pillars },
+  { id: 'scatter', name: 'Scatter', difficulty: 2, build: scatter },
+  { id: 'box', name: 'Box', difficulty: 2, build: box },
+  { id: 'mirrored', name: 'Mirror', difficulty: 2, build: mirrored },
+  { id: 'symmetric', name: 'Kaleidoscope', difficulty: 3, build: symmetric },
+  { id: 'stripes', name: 'Stripes', difficulty: 3, build: stripes },
+  { id: 'rooms', name: 'Rooms', difficulty: 4, build: rooms },
+  { id: 'spiral', name: 'Spiral', difficulty: 4, build: spiral },
+  { id: 'maze', name: 'Maze', difficulty: 5, build: maze },
+];
+
+export const getPattern = (id: string, patterns: LevelPattern[] = LEVEL_PATTERNS) =>
+  patterns.find((p) => p.id === id);
+
+// Every reason a level isn't fair to play; empty when it's fine
+export function validateLevel(walls: Point[]): string[] {
+  const problems: string[] = [];
+  const blocked = new Set(walls.map(cellIndex));
+  const isFree = (p: Point) => !blocked.has(cellIndex(p));
+
+  if (walls.some((w) => w.x < 0 || w.x > LAST || w.y < 0 || w.y > LAST)) {
+    problems.push('Walls run off the board');
+  }
+
+  const density = blocked.size / (GRID_SIZE * GRID_SIZE);
+  if (density < MIN_WALL_DENSITY) problems.push('Too few walls');
+  if (density > MAX_WALL_DENSITY) problems.push('Too many walls');
+
+  if (!START_CORRIDOR.every(isFree)) problems.push('Start corridor is blocked');
+
+  const freeCount = GRID_SIZE * GRID_SIZE - blocked.size;
+  if (reachableCells(INITIAL_SNAKE[0], walls).length !== freeCount) {
+    problems.push('Part of the board is cut off');
+  }
+
+  if (!hasSafeFirstMove(walls)) problems.push('The first move is a forced death');
+
+  return problems;
+}
+
+const step = (p: Point, direction: Direction): Point => ({
+  x: (p.x + DIRECTIONS[direction].x + GRID_SIZE) % GRID_SIZE,
+  y: (p.y + DIRECTIONS[direction].y + GRID_SIZE) % GRID_SIZE,
+});
+
+// Some move from the start lands on a free cell that isn't itself a dead end
+function hasSafeFirstMove(walls: Point[]): boolean {
+  const blocked = new Set([...walls, ...INITIAL_SNAKE].map(cellIndex));
+  const moves = (Object.keys(DIRECTIONS) as Direction[]).filter(
+    (d) => !isOpposite(d, INITIAL_DIRECTION)
+  );
+
+  return moves.some((first) => {
+    const target = step(INITIAL_SNAKE[0], first);
+    if (blocked.has(cellIndex(target))) return false;
+    return (Object.keys(DIRECTIONS) as Direction[]).some((second) => {
+      const onward = step(target, second);
+      return !samePoint(onward, INITIAL_SNAKE[0]) && !blocked.has(cellIndex(onward));
+    });
+  });
+}
+
+// Patterns are free to draw over the start; the corridor is carved back out afterwards
+function tidy(raw: Point[]): Point[] {
+  const seen = new Set<number>();
+  return raw.filter((w) => {
+    if (w.x < 0 || w.x > LAST || w.y < 0 || w.y > LAST) return false;
+    if (START_CORRIDOR.some((c) => samePoint(c, w))) return false;
+    const key = cellIndex(w);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// The day's level: a pattern from the difficulty range, re-rolled until one passes validation.
+// If nothing does, plain pillars always will.
+export function generateLevel(
+  seed: number,
+  difficulty: DifficultyRange = ANY_DIFFICULTY,
+  patterns: LevelPattern[] = LEVEL_PATTERNS
+): Level {
+  const eligible = patterns.filter(
+    (p) => p.difficulty >= difficulty.min && p.difficulty <= difficulty.max
+  );
+  const rng = new Rng(seed).fork('level');
+
+  for (let attempt = 0; eligible.length > 0 && attempt < MAX_ATTEMPTS; attempt++) {
+    const attemptRng = rng.fork(`${attempt}`);
+    const pattern = attemptRng.pick(eligible);
+    const walls = tidy(pattern.build(attemptRng));
+    if (validateLevel(walls).length === 0) return { pattern: pattern.id, walls };
+  }
+
+  return { pattern: 'pillars', walls: tidy(pillars(new Rng(seed).fork('fallback'))) };
+}
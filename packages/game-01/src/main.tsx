@@ -1,11 +1,12 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import type { GameResult } from '@advent/contract';
 import { Game } from './Game';
 import './index.css';
 
 function App() {
-  const handleComplete = (score: number) => {
-    console.log('Game completed with score:', score);
+  const handleComplete = (result: GameResult) => {
+    console.log('Game completed:', result);
   };
 
   return (
@@ -0,0 +1,85 @@
+import type { SnakeState } from './engine';
+
+export type SnakleMode = 'daily' | 'timeAttack' | 'endless';
+
+export interface ModeConfig {
+  label: string;
+  emoji: string;
+  description: string;
+  // Deaths (walls and crashes) allowed before the run is over; null for no limit
+  lives: number | null;
+  // Game time, summed from tick intervals, before the run is over; null for no limit
+  timeLimitMs: number | null;
+  // Whether every death, into a wall or a crash, is reported as a result, rather than only the
+  // end of the run
+  reportsEachCrash: boolean;
+  // Only one mode goes on the leaderboard, so everyone there played the same game
+  ranked: boolean;
+  score: (state: SnakeState) => number;
+  // The share text between the puzzle number and the powerups line
+  shareLines: (state: SnakeState) => string[];
+}
+
+export const DAILY_LIVES = 3;
+export const TIME_ATTACK_MS = 60_000;
+
+export const MODES: Record<SnakleMode, ModeConfig> = {
+  daily: {
+    label: 'Daily',
+    emoji: '🗓️',
+    description: `${DAILY_LIVES} lives, one final score`,
+    lives: DAILY_LIVES,
+    timeLimitMs: null,
+    reportsEachCrash: false,
+    ranked: true,
+    score: (state) => state.points * 100,
+    shareLines: (state) => [`🍎 ${state.fruits} Fruits`, `🏆 ${state.points * 100} pts`],
+  },
+  timeAttack: {
+    label: 'Time Attack',
+    emoji: '⏱️',
+    description: `Most fruit in ${TIME_ATTACK_MS / 1000} seconds`,
+    lives: null,
+    timeLimitMs: TIME_ATTACK_MS,
+    reportsEachCrash: false,
+    ranked: false,
+    // The clock only counts ticks and respawning is free, so a crash costs no time. It costs the
+    // snake its length and a little score, so playing safe still pays.
+    score: (state) => Math.max(0, state.points * 100 - state.deaths * 50),
+    shareLines: (state) => [
+      `🍎 ${state.fruits} Fruits in ${TIME_ATTACK_MS / 1000}s`,
+      `💀 ${state.deaths} Crashes`,
+    ],
+  },
+  endless: {
+    label: 'Endless',
+    emoji: '♾️',
+    description: 'Respawn forever',
+    lives: null,
+    timeLimitMs: null,
+    reportsEachCrash: true,
+    ranked: false,
+    score: (state) => state.points * 100,
+    shareLines: (state) => [`🍎 ${state.fruits} Fruits`, `💀 ${state.deaths} Lives`],
+  },
+};
+
+export const MODE_IDS = Object.keys(MODES) as SnakleMode[];
+
+export function isRunOver(state: SnakeState): boolean {
+  const { lives, timeLimitMs } = MODES[state.mode];
+  return (
+    (lives !== null && state.deaths >= lives) ||
+    (timeLimitMs !== null && state.elapsedMs >= timeLimitMs)
+  );
+}
+
+export const getLivesLeft = (state: SnakeState) => {
+  const { lives } = MODES[state.mode];
+  return lives === null ? null : Math.max(0, lives - state.deaths);
+};
+
+export const getTimeLeftMs = (state: SnakeState) => {
+  const { timeLimitMs } = MODES[state.mode];
+  return timeLimitMs === null ? null : Math.max(0, timeLimitMs - state.elapsedMs);
+};
@@ -0,0 +1,54 @@
+import type { Point } from './rules';
+
+export type PowerupType = 'ghost' | 'slowmo' | 'shrink' | 'double';
+
+export interface PowerupConfig {
+  label: string;
+  emoji: string;
+  // How long the effect lasts once picked up, in ticks
+  duration: number;
+  // Relative odds when a powerup spawns
+  weight: number;
+}
+
+export const POWERUPS: Record<PowerupType, PowerupConfig> = {
+  // Pass through walls and your own body
+  ghost: { label: 'Ghost', emoji: '👻', duration: 40, weight: 3 },
+  // Ticks come slower, so there is more time to steer
+  slowmo: { label: 'Slow-mo', emoji: '🐢', duration: 50, weight: 3 },
+  // Drops a third of the tail, and fruit doesn't grow you back while it lasts
+  shrink: { label: 'Shrink', emoji: '✂️', duration: 30, weight: 2 },
+  // Every fruit counts twice
+  double: { label: 'Double', emoji: '✖️', duration: 60, weight: 2 },
+};
+
+export const POWERUP_TYPES = Object.keys(POWERUPS) as PowerupType[];
+
+// Chance that eating a fruit drops a powerup, if none is on the board already
+export const POWERUP_CHANCE = 0.3;
+// Ticks a powerup stays on the board before it disappears
+export const POWERUP_LIFETIME = 60;
+// Slow-mo stretches the time between ticks by this much
+export const SLOWMO_FACTOR = 1.6;
+
+export interface BoardPowerup {
+  type: PowerupType;
+  position: Point;
+  expiresAt: number;
+}
+
+// Tick each active effect ends on
+export type ActiveEffects = Partial<Record<PowerupType, number>>;
+
+export const isActive = (effects: ActiveEffects, type: PowerupType, tick: number) =>
+  (effects[type] ?? 0) > tick;
+
+export const remainingTicks = (effects: ActiveEffects, type: PowerupType, tick: number) =>
+  Math.max(0, (effects[type] ?? 0) - tick);
+
+// Shrink keeps at least the starting length
+export const shrinkSnake = (snake: Point[]) =>
+  snake.slice(0, Math.max(3, snake.length - Math.floor(snake.length / 3)));
+
+export const getActiveEffects = (effects: ActiveEffects, tick: number) =>
+  POWERUP_TYPES.filter((type) => isActive(effects, type, tick));
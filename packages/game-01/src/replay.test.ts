@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_REPLAY_INPUTS, MAX_REPLAY_TICKS } from '@advent/contract';
+import { decodeReplay, encodeReplay, type SnakleRecording } from './replay';
+
+const recording: SnakleRecording = {
+  seed: 12345,
+  difficulty: { min: 1, max: 3 },
+  mode: 'daily',
+  ticks: 40,
+  inputs: [
+    { tick: 5, direction: 'UP' },
+    { tick: 12, direction: 'LEFT' },
+    { tick: 30, direction: 'DOWN' },
+  ],
+};
+
+describe('decodeReplay', () => {
+  it('reads back what encodeReplay wrote', () => {
+    expect(decodeReplay(encodeReplay(recording))).toEqual(recording);
+  });
+
+  it('rejects a replay that claims more ticks than any run may have', () => {
+    expect(decodeReplay(encodeReplay({ ...recording, ticks: MAX_REPLAY_TICKS }))).not.toBeNull();
+    expect(decodeReplay(encodeReplay({ ...recording, ticks: MAX_REPLAY_TICKS + 1 }))).toBeNull();
+  });
+
+  it('rejects a replay with more inputs than the cap', () => {
+    const inputs = Array.from({ length: MAX_REPLAY_INPUTS + 1 }, (_, tick) => ({
+      tick,
+      direction: 'UP' as const,
+    }));
+    expect(
+      decodeReplay(encodeReplay({ ...recording, ticks: MAX_REPLAY_TICKS, inputs }))
+    ).toBeNull();
+  });
+
+  it('rejects inputs after the last tick', () => {
+    expect(
+      decodeReplay(encodeReplay({ ...recording, inputs: [{ tick: 41, direction: 'UP' }] }))
+    ).toBeNull();
+  });
+});
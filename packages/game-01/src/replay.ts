@@ -0,0 +1,88 @@
+import { MAX_REPLAY_INPUTS, MAX_REPLAY_TICKS, type GameReplay } from '@advent/contract';
+import type { SnakleInput } from './engine';
+import type { DifficultyRange } from './levels';
+import type { SnakleMode } from './modes';
+import type { Direction } from './rules';
+
+// A finished run plus the level difficulty and mode it was played on, which is all playback needs
+export interface SnakleRecording extends GameReplay<SnakleInput> {
+  difficulty: DifficultyRange;
+  mode: SnakleMode;
+}
+
+// Links look like /day/1#replay=<encoded recording>
+export const REPLAY_HASH_KEY = 'replay';
+
+const FORMAT_VERSION = '2';
+
+const DIRECTION_CODES: Record<Direction, string> = { UP: 'U', DOWN: 'D', LEFT: 'L', RIGHT: 'R' };
+const CODE_DIRECTIONS = Object.fromEntries(
+  Object.entries(DIRECTION_CODES).map(([direction, code]) => [code, direction as Direction])
+);
+
+const MODE_CODES: Record<SnakleMode, string> = { daily: 'd', timeAttack: 't', endless: 'e' };
+const CODE_MODES = Object.fromEntries(
+  Object.entries(MODE_CODES).map(([mode, code]) => [code, mode as SnakleMode])
+);
+
+// Dot-separated fields that only use URL-safe characters: version, seed, difficulty, mode,
+// ticks, then each input as the ticks since the previous one (base 36) followed by U/D/L/R.
+export function encodeReplay(recording: SnakleRecording): string {
+  let lastTick = 0;
+  const inputs = recording.inputs
+    .map(({ tick, direction }) => {
+      const delta = tick - lastTick;
+      lastTick = tick;
+      return delta.toString(36) + DIRECTION_CODES[direction];
+    })
+    .join('');
+
+  return [
+    FORMAT_VERSION,
+    recording.seed.toString(36),
+    `${recording.difficulty.min}${recording.difficulty.max}`,
+    MODE_CODES[recording.mode],
+    (recording.ticks ?? 0).toString(36),
+    inputs,
+  ].join('.');
+}
+
+// Null for anything that isn't a recording this version wrote, or that's longer than any replay
+// is allowed to be, since a link can claim whatever it likes
+export function decodeReplay(encoded: string): SnakleRecording | null {
+  const [version, seed, difficulty, modeCode, ticks, inputs, ...rest] = encoded.split('.');
+  if (version !== FORMAT_VERSION) return null;
+  if (rest.length > 0 || inputs === undefined || !Object.values(MODE_CODES).includes(modeCode)) {
+    return null;
+  }
+  if (!/^[0-9a-z]+$/.test(seed) || !/^[1-5]{2}$/.test(difficulty)) return null;
+  if (!/^[0-9a-z]+$/.test(ticks) || !/^([0-9a-z]+[UDLR])*$/.test(inputs)) return null;
+
+  const totalTicks = parseInt(ticks, 36);
+  if (totalTicks > MAX_REPLAY_TICKS) return null;
+  const moves = [...inputs.matchAll(/([0-9a-z]+)([UDLR])/g)];
+  if (moves.length > MAX_REPLAY_INPUTS) return null;
+
+  let tick = 0;
+  const decoded: SnakleInput[] = moves.map((match) => {
+    tick += parseInt(match[1], 36);
+    return { tick, direction: CODE_DIRECTIONS[match[2]] };
+  });
+  if (tick > totalTicks) return null;
+
+  return {
+    seed: parseInt(seed, 36),
+    difficulty: { min: Number(difficulty[0]), max: Number(difficulty[1]) },
+    mode: CODE_MODES[modeCode],
+    ticks: totalTicks,
+    inputs: decoded,
+  };
+}
+
+export function readReplayHash(hash: string): SnakleRecording | null {
+  const value = new URLSearchParams(hash.replace(/^#/, '')).get(REPLAY_HASH_KEY);
+  return value ? decodeReplay(value) : null;
+}
+
+export const getReplayUrl = (recording: SnakleRecording, location: Location) =>
+  `${location.origin}${location.pathname}#${REPLAY_HASH_KEY}=${encodeReplay(recording)}`;
@@ -0,0 +1,96 @@
+import type { Rng } from '@advent/rng';
+
+export const GRID_SIZE = 20;
+
+export type Point = { x: number; y: number };
+export type Direction = 'UP' | 'DOWN' | 'LEFT' | 'RIGHT';
+
+export const DIRECTIONS: Record<Direction, Point> = {
+  UP: { x: 0, y: -1 },
+  DOWN: { x: 0, y: 1 },
+  LEFT: { x: -1, y: 0 },
+  RIGHT: { x: 1, y: 0 },
+};
+
+export const INITIAL_SNAKE: Point[] = [
+  { x: 10, y: 10 },
+  { x: 10, y: 11 },
+  { x: 10, y: 12 },
+];
+
+export const INITIAL_DIRECTION: Direction = 'UP';
+
+const OPPOSITES: Record<Direction, Direction> = {
+  UP: 'DOWN',
+  DOWN: 'UP',
+  LEFT: 'RIGHT',
+  RIGHT: 'LEFT',
+};
+
+export const isOpposite = (a: Direction, b: Direction) => OPPOSITES[a] === b;
+
+export const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+export const hitsWall = (head: Point, walls: Point[]) => walls.some((w) => samePoint(w, head));
+
+// One step forward, wrapping at the edges. Running into the body leaves the snake where it was,
+// unless it can pass through itself.
+export function advanceSnake(snake: Point[], direction: Direction, passThrough = false) {
+  const head = snake[0];
+  const newHead = {
+    x: head.x + DIRECTIONS[direction].x,
+    y: head.y + DIRECTIONS[direction].y,
+  };
+
+  if (newHead.x < 0) newHead.x = GRID_SIZE - 1;
+  if (newHead.x >= GRID_SIZE) newHead.x = 0;
+  if (newHead.y < 0) newHead.y = GRID_SIZE - 1;
+  if (newHead.y >= GRID_SIZE) newHead.y = 0;
+
+  if (!passThrough && snake.some((segment) => samePoint(segment, newHead))) {
+    return { snake, crashed: true };
+  }
+
+  return { snake: [newHead, ...snake.slice(0, -1)], crashed: false };
+}
+
+export const growSnake = (snake: Point[]) => [...snake, snake[snake.length - 1]];
+
+export const cellIndex = (p: Point) => p.y * GRID_SIZE + p.x;
+
+// Every cell the head can get to without crossing a wall, following the wrap-around edges.
+// The body moves out of the way over time, so it doesn't block.
+export function reachableCells(from: Point, walls: Point[]): Point[] {
+  const blocked = new Set(walls.map(cellIndex));
+  const seen = new Set([cellIndex(from)]);
+  const queue = [from];
+
+  for (let i = 0; i < queue.length; i++) {
+    const p = queue[i];
+    for (const d of Object.values(DIRECTIONS)) {
+      const n = {
+        x: (p.x + d.x + GRID_SIZE) % GRID_SIZE,
+        y: (p.y + d.y + GRID_SIZE) % GRID_SIZE,
+      };
+      const key = cellIndex(n);
+      if (blocked.has(key) || seen.has(key)) continue;
+      seen.add(key);
+      queue.push(n);
+    }
+  }
+
+  return queue;
+}
+
+// Picks uniformly from the free cells the snake can reach, so the same seed always places the
+// same item and an item is always placed while there's room. Null only when the board is full.
+export function pickFreeCell(
+  rng: Rng,
+  snake: Point[],
+  walls: Point[],
+  taken: Point[] = []
+): Point | null {
+  const occupied = new Set([...snake, ...taken].map(cellIndex));
+  const free = reachableCells(snake[0], walls).filter((cell) => !occupied.has(cellIndex(cell)));
+  return free.length > 0 ? rng.pick(free) : null;
+}
@@ -0,0 +1,115 @@
+import { theme } from '@advent/ui';
+import { SAMPLE_MS, getHayLost, getHayMade, isLossWeather, type DayRecord } from './breakdown';
+import { WEATHER_CONFIGS, WEATHER_EMOJI, WeatherType } from './weather';
+
+const CHART_W = 360;
+const CHART_H = 120;
+
+const LOSS_WEATHER = Object.values(WeatherType).filter(isLossWeather);
+
+const toPoints = (values: number[], max: number, duration: number) =>
+  values
+    .map((value, i) => {
+      const x = (Math.min(i * SAMPLE_MS, duration * 1000) / (duration * 1000)) * CHART_W;
+      return `${x.toFixed(1)},${(CHART_H - (value / max) * CHART_H).toFixed(1)}`;
+    })
+    .join(' ');
+
+// Field and barn over the day, with the weather that drove them underneath
+function DayChart({ record }: { record: DayRecord }) {
+  const duration = record.phases[record.phases.length - 1]?.end ?? 0;
+  const max = Math.max(1, ...record.samples.flatMap((sample) => [sample.field, sample.barn]));
+  if (duration === 0) return null;
+
+  return (
+    <div className="mb-4">
+      <svg
+        viewBox={`0 0 ${CHART_W} ${CHART_H}`}
+        className="block w-full"
+        role="img"
+        aria-label="Field and barn hay over the day"
+      >
+        {[0.25, 0.5, 0.75].map((line) => (
+          <line
+            key={line}
+            x1={0}
+            x2={CHART_W}
+            y1={CHART_H * line}
+            y2={CHART_H * line}
+            stroke="#374151"
+            strokeDasharray="2 4"
+          />
+        ))}
+        <polyline
+          points={toPoints(
+            record.samples.map((sample) => sample.field),
+            max,
+            duration
+          )}
+          fill="none"
+          stroke={theme.colors.neon.green}
+          strokeWidth={2}
+        />
+        <polyline
+          points={toPoints(
+            record.samples.map((sample) => sample.barn),
+            max,
+            duration
+          )}
+          fill="none"
+          stroke={theme.colors.neon.blue}
+          strokeWidth={2}
+        />
+      </svg>
+      <div className="flex h-6 w-full overflow-hidden rounded">
+        {record.phases.map((phase, i) => (
+          <div
+            key={i}
+            className={`flex items-center justify-center border-r border-black/40 text-xs ${
+              WEATHER_CONFIGS[phase.type].canMakeHay ? 'bg-neon-green/30' : 'bg-gray-800'
+            }`}
+            style={{ width: `${((phase.end - phase.start) / duration) * 100}%` }}
+            title={`${phase.type} ${phase.start.toFixed(1)}–${phase.end.toFixed(1)}s, ${phase.made} hay made`}
+          >
+            {phase.end - phase.start >= 2 && WEATHER_EMOJI[phase.type]}
+          </div>
+        ))}
+      </div>
+      <div className="mt-1 flex justify-between font-mono text-xs text-gray-500">
+        <span>
+          <span className="text-neon-green">━ field</span>{' '}
+          <span className="text-neon-blue">━ barn</span>
+        </span>
+        <span>peak {Math.floor(max)}</span>
+      </div>
+    </div>
+  );
+}
+
+// The story of one day: how the hay was made, what the weather took and time spent covering
+export function DayBreakdown({ record }: { record: DayRecord }) {
+  const madeIn = record.phases.filter((phase) => phase.made > 0);
+
+  return (
+    <div className="border-neon-purple/50 mb-6 rounded-lg border-2 bg-black/60 p-4 text-left">
+      <DayChart record={record} />
+      <dl className="grid grid-cols-2 gap-x-6 gap-y-1 font-mono text-sm">
+        <dt className="text-gray-400">Hay made</dt>
+        <dd className="text-neon-green text-right">
+          {getHayMade(record)} in {madeIn.length} sunny spells
+        </dd>
+        <dt className="text-gray-400">Hay lost</dt>
+        <dd className="text-neon-pink text-right">
+          {Math.round(getHayLost(record))}{' '}
+          {LOSS_WEATHER.filter((type) => Math.round(record.lost[type] ?? 0) > 0)
+            .map((type) => `${WEATHER_EMOJI[type]}${Math.round(record.lost[type] ?? 0)}`)
+            .join(' ')}
+        </dd>
+        <dt className="text-gray-400">Time covering</dt>
+        <dd className="text-right">{(record.coveringMs / 1000).toFixed(1)}s</dd>
+        <dt className="text-gray-400">Covers cancelled</dt>
+        <dd className="text-right">{record.coversCancelled}</dd>
+      </dl>
+    </div>
+  );
+}
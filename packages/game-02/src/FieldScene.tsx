@@ -0,0 +1,320 @@
+import { useEffect, useId, useMemo, useRef, useState, type CSSProperties } from 'react';
+import { Rng } from '@advent/rng';
+import { theme } from '@advent/ui';
+import { WEATHER_CONFIGS, WeatherType } from './weather';
+
+const { neon, christmas } = theme.colors;
+
+const WIDTH = 400;
+const HEIGHT = 220;
+const GROUND = 170;
+
+// One bale on the field for every few hay, laid like bricks from the left
+const HAY_PER_BALE = 5;
+const BALE_W = 22;
+const BALE_H = 14;
+const BALES_PER_ROW = 10;
+
+// The barn reads as full at this much hay; it keeps counting past it
+const BARN_FULL = 300;
+const BARN = { x: 296, y: 100, width: 88, height: GROUND - 100 };
+
+const SKY: Record<WeatherType, string> = {
+  [WeatherType.SUNNY]: '#0B2447',
+  [WeatherType.CLOUDY]: '#1A1F2E',
+  [WeatherType.WINDY]: '#141B2D',
+  [WeatherType.RAINY]: '#0D1220',
+  [WeatherType.SNOWING]: '#1C2233',
+};
+
+const RAIN_DROPS = 40;
+const SNOWFLAKES = 30;
+const GUSTS = 8;
+
+// Where each particle sits and how far into its animation it starts, all in [0, 1)
+interface Particle {
+  position: number;
+  size: number;
+  delay: number;
+}
+
+// Drawn once from the game's seed on its own stream, so every render draws the same sky and the
+// game's own rolls are untouched
+function scatterParticles(seed: number) {
+  const rng = new Rng(seed).fork('scene');
+  const particles = (count: number): Particle[] =>
+    Array.from({ length: count }, () => ({
+      position: rng.next(),
+      size: rng.next(),
+      delay: rng.next(),
+    }));
+  return { rain: particles(RAIN_DROPS), snow: particles(SNOWFLAKES), gusts: particles(GUSTS) };
+}
+
+const KEYFRAMES = `
+@keyframes hay-fall { from { transform: translateY(-20px); } to { transform: translateY(${GROUND + 20}px); } }
+@keyframes hay-drift { 0% { transform: translate(0, -10px); } 50% { transform: translate(8px, ${GROUND / 2}px); } 100% { transform: translate(0, ${GROUND + 10}px); } }
+@keyframes hay-gust { from { transform: translateX(-120px); opacity: 0; } 30% { opacity: 0.8; } to { transform: translateX(${WIDTH + 40}px); opacity: 0; } }
+@keyframes hay-shaft { 0%, 100% { opacity: 0.12; } 50% { opacity: 0.28; } }
+@keyframes hay-cloud { from { transform: translateX(-30px); } to { transform: translateX(30px); } }
+@keyframes hay-blow { to { transform: translate(140px, -70px) rotate(200deg); opacity: 0; } }
+@keyframes hay-soak { to { transform: translateY(10px) scaleY(0.2); opacity: 0; } }
+.hay-anim { transform-box: fill-box; transform-origin: center; }
+@media (prefers-reduced-motion: reduce) { .hay-anim { animation: none !important; } }
+`;
+
+const animate = (name: string, seconds: number, delay = 0, extra = 'linear infinite') =>
+  ({ animation: `${name} ${seconds}s ${extra} ${-delay}s` }) as CSSProperties;
+
+const balePosition = (i: number) => {
+  const row = Math.floor(i / BALES_PER_ROW);
+  const col = i % BALES_PER_ROW;
+  return {
+    x: 16 + col * (BALE_W + 3) + (row % 2) * (BALE_W / 2),
+    y: GROUND - BALE_H - row * BALE_H,
+  };
+};
+
+function Bale({ x, y, scale = 1 }: { x: number; y: number; scale?: number }) {
+  const h = BALE_H * scale;
+  return (
+    <g>
+      <rect
+        x={x}
+        y={y + BALE_H - h}
+        width={BALE_W}
+        height={h}
+        rx={3}
+        fill={christmas.gold}
+        stroke="#8A5A00"
+        strokeWidth={1}
+      />
+      {scale === 1 && (
+        <path
+          d={`M${x + 7} ${y + 2}v${BALE_H - 4}M${x + 15} ${y + 2}v${BALE_H - 4}`}
+          stroke="#8A5A00"
+          strokeWidth={1}
+        />
+      )}
+    </g>
+  );
+}
+
+interface FlyingBale {
+  id: number;
+  x: number;
+  y: number;
+  blown: boolean;
+}
+
+interface FieldSceneProps {
+  seed: number;
+  weather: WeatherType;
+  uncoveredHay: number;
+  coveredHay: number;
+  isCovering: boolean;
+  coverProgress: number;
+}
+
+// The farm as the numbers see it: bales on the field, hay in the barn and the weather over both
+export function FieldScene({
+  seed,
+  weather,
+  uncoveredHay,
+  coveredHay,
+  isCovering,
+  coverProgress,
+}: FieldSceneProps) {
+  const id = useId().replace(/:/g, '');
+  const particles = useMemo(() => scatterParticles(seed), [seed]);
+  const config = WEATHER_CONFIGS[weather];
+  const fullBales = Math.floor(uncoveredHay / HAY_PER_BALE);
+  const partBale = (uncoveredHay % HAY_PER_BALE) / HAY_PER_BALE;
+  const bales = Math.ceil(uncoveredHay / HAY_PER_BALE);
+
+  // Bales the weather takes off the field fly (wind) or sink (rain, snow) instead of vanishing
+  const [flying, setFlying] = useState<FlyingBale[]>([]);
+  const lastBales = useRef(bales);
+  const lastCovered = useRef(coveredHay);
+  const nextFlyer = useRef(0);
+  useEffect(() => {
+    const lost = lastBales.current - bales;
+    // Hay that went into the barn was covered, not lost, even on the tick covering finishes
+    const barnGrew = coveredHay > lastCovered.current;
+    lastBales.current = bales;
+    lastCovered.current = coveredHay;
+    if (lost <= 0 || barnGrew || isCovering || config.hayLossRate === 0) return;
+    const flyers = Array.from({ length: lost }, (_, i) => ({
+      id: nextFlyer.current++,
+      ...balePosition(bales + i),
+      blown: weather === WeatherType.WINDY,
+    }));
+    setFlying((current) => [...current, ...flyers]);
+  }, [bales, coveredHay, isCovering, config.hayLossRate, weather]);
+
+  const land = (flyerId: number) =>
+    setFlying((current) => current.filter((flyer) => flyer.id !== flyerId));
+
+  const barnFill = Math.min(1, coveredHay / BARN_FULL) * BARN.height;
+  const cloudy = weather !== WeatherType.SUNNY;
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      className="border-neon-blue/30 mb-4 block w-full rounded-lg border-2"
+      role="img"
+      aria-label={`${weather} over ${Math.floor(uncoveredHay)} hay in the field and ${Math.floor(coveredHay)} in the barn`}
+    >
+      <style>{KEYFRAMES}</style>
+      <defs>
+        <linearGradient id={`${id}-sky`} x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stopColor={SKY[weather]} />
+          <stop offset="100%" stopColor={christmas.midnight} />
+        </linearGradient>
+      </defs>
+
+      <rect width={WIDTH} height={HEIGHT} fill={`url(#${id}-sky)`} />
+
+      {/* Sun and its shafts while hay can be made */}
+      {config.canMakeHay && (
+        <g>
+          <circle cx={48} cy={36} r={18} fill={christmas.gold} opacity={0.9} />
+          {[0, 1, 2].map((i) => (
+            <polygon
+              key={i}
+              className="hay-anim"
+              points={`${40 + i * 10},40 ${90 + i * 70},${GROUND} ${130 + i * 80},${GROUND}`}
+              fill={christmas.gold}
+              style={animate('hay-shaft', 3, i, 'ease-in-out infinite')}
+            />
+          ))}
+        </g>
+      )}
+
+      {cloudy &&
+        [0, 1, 2].map((i) => (
+          <ellipse
+            key={i}
+            className="hay-anim"
+            cx={70 + i * 120}
+            cy={28 + (i % 2) * 14}
+            rx={48}
+            ry={14}
+            fill={weather === WeatherType.CLOUDY ? '#4B5563' : '#374151'}
+            opacity={0.8}
+            style={animate('hay-cloud', 6 + i, i * 2, 'ease-in-out infinite alternate')}
+          />
+        ))}
+
+      {/* Ground */}
+      <rect y={GROUND} width={WIDTH} height={HEIGHT - GROUND} fill={`${neon.green}1A`} />
+      <line x1={0} y1={GROUND} x2={WIDTH} y2={GROUND} stroke={neon.green} strokeWidth={2} />
+
+      {/* Barn, filling from the floor with covered hay */}
+      <polygon
+        points={`${BARN.x - 6},${BARN.y} ${BARN.x + BARN.width / 2},${BARN.y - 26} ${BARN.x + BARN.width + 6},${BARN.y}`}
+        fill={`${neon.pink}33`}
+        stroke={neon.pink}
+        strokeWidth={2}
+      />
+      <rect {...BARN} fill={christmas.midnight} />
+      <rect
+        x={BARN.x}
+        y={GROUND - barnFill}
+        width={BARN.width}
+        height={barnFill}
+        fill={christmas.gold}
+        opacity={0.7}
+        className="transition-all duration-300"
+      />
+      <rect {...BARN} fill="none" stroke={neon.pink} strokeWidth={2} />
+      <text
+        x={BARN.x + BARN.width / 2}
+        y={BARN.y + 22}
+        textAnchor="middle"
+        fontSize={16}
+        fontWeight="bold"
+        fill={neon.blue}
+      >
+        {Math.floor(coveredHay)}
+      </text>
+
+      {/* Field */}
+      {Array.from({ length: bales }, (_, i) => {
+        const { x, y } = balePosition(i);
+        return <Bale key={i} x={x} y={y} scale={i < fullBales ? 1 : partBale} />;
+      })}
+
+      {flying.map((flyer) => (
+        <g
+          key={flyer.id}
+          className="hay-anim"
+          style={{
+            animation: `${flyer.blown ? 'hay-blow' : 'hay-soak'} 0.9s ease-in forwards`,
+          }}
+          onAnimationEnd={() => land(flyer.id)}
+        >
+          <Bale x={flyer.x} y={flyer.y} />
+        </g>
+      ))}
+
+      {/* A tarp pulled across the field while covering */}
+      {isCovering && (
+        <rect
+          x={10}
+          y={GROUND - BALE_H * 3 - 6}
+          width={(270 * coverProgress) / 100}
+          height={BALE_H * 3 + 6}
+          rx={4}
+          fill={`${neon.purple}55`}
+          stroke={neon.purple}
+          strokeWidth={1.5}
+        />
+      )}
+
+      {/* Weather */}
+      {weather === WeatherType.RAINY &&
+        particles.rain.map((drop, i) => (
+          <line
+            key={i}
+            className="hay-anim"
+            x1={drop.position * WIDTH}
+            y1={0}
+            x2={drop.position * WIDTH - 4}
+            y2={12}
+            stroke={neon.blue}
+            strokeWidth={1.5}
+            opacity={0.7}
+            style={animate('hay-fall', 0.6, drop.delay * 0.6)}
+          />
+        ))}
+
+      {weather === WeatherType.SNOWING &&
+        particles.snow.map((flake, i) => (
+          <circle
+            key={i}
+            className="hay-anim"
+            cx={flake.position * WIDTH}
+            cy={0}
+            r={1.5 + flake.size * 1.5}
+            fill="#FFFFFF"
+            style={animate('hay-drift', 3, flake.delay * 3)}
+          />
+        ))}
+
+      {weather === WeatherType.WINDY &&
+        particles.gusts.map((gust, i) => (
+          <path
+            key={i}
+            className="hay-anim"
+            d={`M0 ${30 + gust.position * 120} q40 -10 80 0 t80 0`}
+            fill="none"
+            stroke="#E5E7EB"
+            strokeWidth={1.5}
+            strokeLinecap="round"
+            style={animate('hay-gust', 1.2, gust.delay * 1.2)}
+          />
+        ))}
+    </svg>
+  );
+}
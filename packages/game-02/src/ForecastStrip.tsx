@@ -0,0 +1,39 @@
+import type { ForecastEntry } from './forecast';
+import { WEATHER_CONFIGS, WEATHER_EMOJI } from './weather';
+
+interface ForecastStripProps {
+  forecast: ForecastEntry[];
+  elapsedTime: number;
+  // With the radar, when the current weather ends; without it the player has to guess
+  nextChangeAt: number | null;
+}
+
+// The next few weather changes in order, as the forecast calls them; later calls are shakier
+export function ForecastStrip({ forecast, elapsedTime, nextChangeAt }: ForecastStripProps) {
+  return (
+    <div className="mb-4 flex items-stretch gap-2">
+      <div className="flex items-center text-xs uppercase tracking-widest text-gray-500">
+        Forecast
+      </div>
+      {forecast.map((entry, i) => (
+        <div
+          key={i}
+          className={`flex flex-1 items-center justify-between rounded-lg border-2 bg-black/60 px-3 py-1 ${
+            WEATHER_CONFIGS[entry.type].canMakeHay ? 'border-neon-green/50' : 'border-gray-700'
+          }`}
+          title={`${entry.type}, ${Math.round(entry.confidence * 100)}% likely`}
+        >
+          <span className="text-2xl">{WEATHER_EMOJI[entry.type]}</span>
+          <span className="text-right font-mono text-xs">
+            <span className="block text-gray-300">{Math.round(entry.confidence * 100)}%</span>
+            {i === 0 && nextChangeAt !== null && (
+              <span className="text-neon-blue block">
+                in {Math.max(0, nextChangeAt - elapsedTime).toFixed(1)}s
+              </span>
+            )}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,357 +1,203 @@
-import { useEffect, useRef, useState } from 'react';
-import { create } from 'zustand';
-
-export interface GameProps {
-  seed?: number;
-  onComplete?: (score: number) => void;
-}
-
-// Weather types
-enum WeatherType {
-  SUNNY = 'sunny',
-  CLOUDY = 'cloudy',
-  WINDY = 'windy',
-  RAINY = 'rainy',
-  SNOWING = 'snowing',
-}
-
-const WEATHER_EMOJI: Record<WeatherType, string> = {
-  [WeatherType.SUNNY]: '☀️',
-  [WeatherType.CLOUDY]: '☁️',
-  [WeatherType.WINDY]: '💨',
-  [WeatherType.RAINY]: '🌧️',
-  [WeatherType.SNOWING]: '❄️',
+import { useEffect, useMemo, useState } from 'react';
+import type { GameProps } from '@advent/contract';
+import { clearGameState, loadGameState, saveGameState } from '@advent/progress';
+import { resolveSeed } from '@advent/seed';
+import {
+  GAME_CONSTANTS,
+  SEASON_DAYS,
+  UPGRADES,
+  UPGRADE_IDS,
+  canBuyUpgrade,
+  getSeasonHay,
+  getSeasonSeverity,
+  getUpgradeCost,
+  type Campaign,
+} from './campaign';
+import { getHayLost, getShareText, type DayRecord } from './breakdown';
+import { systemClock, type Clock } from './clock';
+import { useGamepadControls, useHoldToCover, useKeyboardControls } from './controls';
+import { getForecast } from './forecast';
+import { DayBreakdown } from './DayBreakdown';
+import { FieldScene } from './FieldScene';
+import { ForecastStrip } from './ForecastStrip';
+import {
+  GameStoreContext,
+  createGameStore,
+  isRestorable,
+  useGameStore,
+  useGameStoreApi,
+  type GameSnapshot,
+} from './store';
+import { WEATHER_EMOJI } from './weather';
+
+export type HayGirlStats = {
+  coveredHay: number;
+  days: number;
+  upgrades: number;
+  hayLost: number;
 };
 
-const WEATHER_CONFIGS = {
-  [WeatherType.SUNNY]: {
-    canMakeHay: true,
-    hayLossRate: 0,
-    minDuration: 2,
-    maxDuration: 6,
-    possibleTransitions: [
-      WeatherType.SUNNY,
-      WeatherType.SUNNY,
-      WeatherType.CLOUDY,
-      WeatherType.WINDY,
-    ],
-  },
-  [WeatherType.CLOUDY]: {
-    canMakeHay: false,
-    hayLossRate: 0,
-    minDuration: 2,
-    maxDuration: 3,
-    possibleTransitions: [
-      WeatherType.SUNNY,
-      WeatherType.SUNNY,
-      WeatherType.SUNNY,
-      WeatherType.CLOUDY,
-      WeatherType.WINDY,
-      WeatherType.RAINY,
-    ],
-  },
-  [WeatherType.WINDY]: {
-    canMakeHay: false,
-    hayLossRate: 1.5,
-    minDuration: 2,
-    maxDuration: 3,
-    possibleTransitions: [
-      WeatherType.SUNNY,
-      WeatherType.SUNNY,
-      WeatherType.CLOUDY,
-      WeatherType.RAINY,
-    ],
-  },
-  [WeatherType.RAINY]: {
-    canMakeHay: false,
-    hayLossRate: 3,
-    minDuration: 2,
-    maxDuration: 3,
-    possibleTransitions: [
-      WeatherType.SUNNY,
-      WeatherType.SUNNY,
-      WeatherType.CLOUDY,
-      WeatherType.WINDY,
-      WeatherType.SNOWING,
-      WeatherType.SNOWING,
-    ],
-  },
-  [WeatherType.SNOWING]: {
-    canMakeHay: false,
-    hayLossRate: 50,
-    minDuration: 1,
-    maxDuration: 2,
-    possibleTransitions: [WeatherType.SUNNY, WeatherType.SUNNY, WeatherType.CLOUDY],
-  },
-};
+export const GAME_ID = 'hay-girl';
 
-const GAME_CONSTANTS = {
-  GAME_DURATION: 90,
-  BASE_COVER_TIME: 2,
-  COVER_SCALING_FACTOR: 0.1,
-  MAKE_HAY_DURATION: 0.25,
-  TICK_RATE: 100,
-  MAX_FIELD_HAY: 90,
-};
+const countUpgrades = (campaign: Campaign) =>
+  UPGRADE_IDS.reduce((total, id) => total + campaign.upgrades[id], 0);
 
-interface GameState {
-  isPlaying: boolean;
-  isGameOver: boolean;
-  startTime: number;
-  elapsedTime: number;
-  uncoveredHay: number;
-  coveredHay: number;
-  isMakingHay: boolean;
-  makeHayProgress: number;
-  makeHayStartTime: number | null;
-  isCovering: boolean;
-  coverProgress: number;
-  coverStartTime: number | null;
-  coverDuration: number;
-  hayBeingTransferred: number;
-  startUncoveredHay: number;
-  startCoveredHay: number;
-  weather: {
-    current: WeatherType;
-    nextChangeAt: number;
-    duration: number;
-  };
-}
+const countHayLost = (history: DayRecord[]) =>
+  Math.round(history.reduce((total, record) => total + getHayLost(record), 0));
 
-const getRandomDuration = (weather: WeatherType) => {
-  const config = WEATHER_CONFIGS[weather];
-  return config.minDuration + Math.random() * (config.maxDuration - config.minDuration);
-};
+// A saved run from storage, or null. One that's corrupt or from an older build is cleared so the
+// game starts a fresh season instead of crashing on the start screen.
+function loadSnapshot(seed: number): GameSnapshot | null {
+  const saved = loadGameState<unknown>(GAME_ID, seed);
+  if (saved === null) return null;
+  if (isRestorable(saved)) return saved;
+  console.error('Discarding saved run', saved);
+  clearGameState(GAME_ID);
+  return null;
+}
 
-const getNextWeather = (current: WeatherType) => {
-  const config = WEATHER_CONFIGS[current];
-  const transitions = config.possibleTransitions;
-  return transitions[Math.floor(Math.random() * transitions.length)];
-};
+// A stalled timer (a busy main thread, a breakpoint) counts for no more than this, so the day
+// doesn't jump ahead when it comes back
+const MAX_STEP_MS = 250;
 
-const calculateCoverDuration = (hay: number) => {
-  return GAME_CONSTANTS.BASE_COVER_TIME + hay * GAME_CONSTANTS.COVER_SCALING_FACTOR;
-};
+// Hands the store the time that passed on the clock, a tick at a time, while `running`
+function useGameClock(clock: Clock, running: boolean, advance: (dtMs: number) => void) {
+  useEffect(() => {
+    if (!running) return;
+    let last = clock.now();
+    const id = setInterval(() => {
+      const now = clock.now();
+      advance(Math.min(now - last, MAX_STEP_MS));
+      last = now;
+    }, GAME_CONSTANTS.TICK_RATE);
+    return () => clearInterval(id);
+  }, [clock, running, advance]);
+}
 
-const useGameStore = create<
-  GameState & {
-    startGame: () => void;
-    tick: () => void;
-    makeHay: () => void;
-    startCovering: () => void;
-    stopCovering: () => void;
-    endGame: () => void;
-    canMakeHay: () => boolean;
-  }
->((set, get) => ({
-  isPlaying: false,
-  isGameOver: false,
-  startTime: 0,
-  elapsedTime: 0,
-  uncoveredHay: 0,
-  coveredHay: 0,
-  isMakingHay: false,
-  makeHayProgress: 0,
-  makeHayStartTime: null,
-  isCovering: false,
-  coverProgress: 0,
-  coverStartTime: null,
-  coverDuration: 0,
-  hayBeingTransferred: 0,
-  startUncoveredHay: 0,
-  startCoveredHay: 0,
-  weather: {
-    current: WeatherType.SUNNY,
-    nextChangeAt: 5,
-    duration: 5,
-  },
-
-  startGame: () => {
-    const now = Date.now();
-    const duration = getRandomDuration(WeatherType.SUNNY);
-    set({
-      isPlaying: true,
-      isGameOver: false,
-      startTime: now,
-      elapsedTime: 0,
-      uncoveredHay: 0,
-      coveredHay: 0,
-      isMakingHay: false,
-      makeHayProgress: 0,
-      makeHayStartTime: null,
-      isCovering: false,
-      coverProgress: 0,
-      coverStartTime: null,
-      weather: {
-        current: WeatherType.SUNNY,
-        nextChangeAt: duration,
-        duration,
-      },
-    });
-  },
-
-  endGame: () => {
-    set({ isPlaying: false, isGameOver: true });
-  },
-
-  tick: () => {
-    const state = get();
-    if (!state.isPlaying || state.isGameOver) return;
-
-    const now = Date.now();
-    const newElapsedTime = (now - state.startTime) / 1000;
-
-    if (newElapsedTime >= GAME_CONSTANTS.GAME_DURATION) {
-      get().endGame();
-      return;
-    }
+type HayGirlProps = GameProps<HayGirlStats> & { clock?: Clock };
 
-    const updates: Partial<GameState> = { elapsedTime: newElapsedTime };
-
-    // Handle hay-making
-    if (state.isMakingHay && state.makeHayStartTime !== null) {
-      const elapsed = (now - state.makeHayStartTime) / 1000;
-      const progress = Math.min((elapsed / GAME_CONSTANTS.MAKE_HAY_DURATION) * 100, 100);
-
-      if (progress >= 100) {
-        updates.isMakingHay = false;
-        updates.makeHayProgress = 0;
-        updates.makeHayStartTime = null;
-        updates.uncoveredHay = Math.min(state.uncoveredHay + 1, GAME_CONSTANTS.MAX_FIELD_HAY);
-      } else {
-        updates.makeHayProgress = progress;
-      }
-    }
+export function Game(props: HayGirlProps) {
+  const [store] = useState(createGameStore);
+  return (
+    <GameStoreContext.Provider value={store}>
+      <HayGirl {...props} />
+    </GameStoreContext.Provider>
+  );
+}
 
-    // Handle covering
-    if (state.isCovering && state.coverStartTime !== null) {
-      const elapsed = (now - state.coverStartTime) / 1000;
-      const progress = Math.min((elapsed / state.coverDuration) * 100, 100);
-      const progressRatio = progress / 100;
-
-      const transferred = Math.floor(state.hayBeingTransferred * progressRatio);
-      updates.coveredHay = Math.max(0, state.startCoveredHay + transferred);
-      updates.uncoveredHay = Math.max(0, state.startUncoveredHay - transferred);
-
-      if (progress >= 100) {
-        updates.isCovering = false;
-        updates.coverProgress = 0;
-        updates.coverStartTime = null;
-        updates.hayBeingTransferred = 0;
-      } else {
-        updates.coverProgress = progress;
-      }
-    }
+function HayGirl({ seed, clock = systemClock, onStart, onProgress, onComplete }: HayGirlProps) {
+  const [showInstructions, setShowInstructions] = useState(true);
+  const [resumable, setResumable] = useState<GameSnapshot | null>(null);
+  // The day shown on the season's end screen; the last one until another is picked
+  const [breakdownDay, setBreakdownDay] = useState<number | null>(null);
+  const store = useGameStore();
+  const storeApi = useGameStoreApi();
+  // The whole season so far, counting today's barn while a day is being played
+  const savedHay =
+    getSeasonHay(store.campaign) + (store.isPlaying ? Math.floor(store.coveredHay) : 0);
+  const gameSeed = useMemo(() => resolveSeed(GAME_ID, seed), [seed]);
+
+  useGameClock(clock, store.isPlaying && !store.isPaused, store.advance);
+  useKeyboardControls(store.isPlaying);
+  useGamepadControls(store.isPlaying);
+  const holdToCover = useHoldToCover();
+
+  // Switching tabs pauses the day rather than letting it run out unseen
+  const { pause } = store;
+  useEffect(() => {
+    const handleVisibility = () => {
+      if (document.hidden) pause();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, [pause]);
 
-    // Handle hay loss
-    if (!state.isCovering && state.uncoveredHay > 0) {
-      const config = WEATHER_CONFIGS[state.weather.current];
-      if (config.hayLossRate > 0) {
-        const lossAmount = (config.hayLossRate * GAME_CONSTANTS.TICK_RATE) / 1000;
-        updates.uncoveredHay = Math.max(0, state.uncoveredHay - lossAmount);
-      }
+  useEffect(() => {
+    if (store.isPlaying && savedHay > 0 && onProgress) {
+      onProgress({
+        gameId: GAME_ID,
+        score: savedHay,
+        elapsedMs: Math.round(storeApi.getState().elapsedMs),
+        stats: {
+          coveredHay: savedHay,
+          days: store.campaign.dayHay.length,
+          upgrades: countUpgrades(store.campaign),
+          hayLost: countHayLost(store.history),
+        },
+      });
     }
+  }, [store.isPlaying, savedHay, store.campaign, store.history, storeApi, onProgress]);
 
-    // Handle weather changes
-    if (newElapsedTime >= state.weather.nextChangeAt) {
-      const newWeather = getNextWeather(state.weather.current);
-      const newDuration = getRandomDuration(newWeather);
-      updates.weather = {
-        current: newWeather,
-        nextChangeAt: newElapsedTime + newDuration,
-        duration: newDuration,
-      };
+  useEffect(() => {
+    if (store.isGameOver && onComplete) {
+      onComplete({
+        gameId: GAME_ID,
+        score: savedHay,
+        won: savedHay > 0,
+        durationMs: SEASON_DAYS * GAME_CONSTANTS.GAME_DURATION * 1000,
+        attempts: 1,
+        stats: {
+          coveredHay: savedHay,
+          days: store.campaign.dayHay.length,
+          upgrades: countUpgrades(store.campaign),
+          hayLost: countHayLost(store.history),
+        },
+        shareText: getShareText(store.history, store.campaign.dayHay),
+      });
     }
+  }, [store.isGameOver, savedHay, store.campaign, store.history, onComplete]);
 
-    set(updates);
-  },
-
-  makeHay: () => {
-    const state = get();
-    if (!get().canMakeHay()) return;
-    if (state.uncoveredHay >= GAME_CONSTANTS.MAX_FIELD_HAY) return;
-
-    set({
-      isMakingHay: true,
-      makeHayProgress: 0,
-      makeHayStartTime: Date.now(),
-    });
-  },
-
-  startCovering: () => {
-    const state = get();
-    if (!state.isPlaying || state.isGameOver || state.isCovering || state.uncoveredHay <= 0) return;
-
-    const duration = calculateCoverDuration(state.uncoveredHay);
-    set({
-      isCovering: true,
-      coverProgress: 0,
-      coverStartTime: Date.now(),
-      coverDuration: duration,
-      hayBeingTransferred: state.uncoveredHay,
-      startUncoveredHay: state.uncoveredHay,
-      startCoveredHay: state.coveredHay,
-    });
-  },
-
-  stopCovering: () => {
-    const state = get();
-    if (!state.isCovering) return;
-
-    const progressRatio = state.coverProgress / 100;
-    const transferred = Math.floor(state.hayBeingTransferred * progressRatio);
-
-    set({
-      isCovering: false,
-      coverProgress: 0,
-      coverStartTime: null,
-      hayBeingTransferred: 0,
-      uncoveredHay: Math.max(0, state.startUncoveredHay - transferred),
-    });
-  },
-
-  canMakeHay: () => {
-    const state = get();
-    if (!state.isPlaying || state.isGameOver || state.isCovering || state.isMakingHay) return false;
-    if (state.uncoveredHay >= GAME_CONSTANTS.MAX_FIELD_HAY) return false;
-    return WEATHER_CONFIGS[state.weather.current].canMakeHay;
-  },
-}));
-
-export function Game({ seed, onComplete }: GameProps) {
-  const [showInstructions, setShowInstructions] = useState(true);
-  const store = useGameStore();
-  const tickInterval = useRef<NodeJS.Timeout | null>(null);
+  // Saved runs are read after mount, so the server render and the first client render agree
+  useEffect(() => {
+    setResumable(loadSnapshot(gameSeed));
+  }, [gameSeed]);
 
+  // The run is saved whenever it stops: paused (leaving the tab included) or between days
   useEffect(() => {
-    if (store.isPlaying) {
-      tickInterval.current = setInterval(() => {
-        store.tick();
-      }, GAME_CONSTANTS.TICK_RATE);
-
-      return () => {
-        if (tickInterval.current) clearInterval(tickInterval.current);
-      };
+    if (store.isGameOver) clearGameState(GAME_ID);
+    else if (store.isPaused || store.isDayOver) {
+      saveGameState(GAME_ID, gameSeed, storeApi.getState().snapshot());
     }
-  }, [store.isPlaying]);
+  }, [store.isPaused, store.isDayOver, store.isGameOver, store.campaign, gameSeed, storeApi]);
 
-  useEffect(() => {
-    if (store.isGameOver && onComplete) {
-      onComplete(Math.floor(store.coveredHay));
+  const handleResume = () => {
+    if (resumable && store.restore(resumable)) {
+      setShowInstructions(false);
+      onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: Date.now() });
     }
-  }, [store.isGameOver, store.coveredHay, onComplete]);
+    setResumable(null);
+  };
 
   const handleStart = () => {
     setShowInstructions(false);
-    store.startGame();
+    store.startGame(gameSeed);
+    onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: Date.now() });
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.clipboard.writeText(getShareText(store.history, store.campaign.dayHay));
+      alert('Copied to clipboard!');
+    } catch (err) {
+      console.error('Failed to copy', err);
+    }
   };
 
   const handlePlayAgain = () => {
     setShowInstructions(true);
-    store.startGame();
+    setBreakdownDay(null);
+    store.startGame(gameSeed);
   };
 
   const remainingTime = Math.max(0, GAME_CONSTANTS.GAME_DURATION - store.elapsedTime);
+  const { upgrades } = store.campaign;
+  const forecast = getForecast(
+    store.weatherTimeline,
+    store.forecastRolls,
+    store.weatherIndex,
+    getSeasonSeverity(store.campaign.day),
+    upgrades.barometer > 0
+  );
 
   if (showInstructions) {
     return (
@@ -360,8 +206,9 @@ export function Game({ seed, onComplete }: GameProps) {
           🌾 HAY GIRL 🌾
         </h1>
         <p className="mb-6 text-xl text-blue-100">
-          Make hay while the sun shines! Cover your hay before bad weather destroys it. You have 90
-          seconds to maximize your score.
+          Make hay while the sun shines! Cover your hay before bad weather destroys it. A season is{' '}
+          {SEASON_DAYS} days of {GAME_CONSTANTS.GAME_DURATION} seconds, and the weather gets worse
+          as it goes on.
         </p>
         <div className="border-neon-blue/50 mb-6 rounded-lg border-2 bg-black/60 p-6">
           <h2 className="text-neon-blue mb-3 text-lg font-bold">How to Play:</h2>
@@ -387,8 +234,28 @@ export function Game({ seed, onComplete }: GameProps) {
             <li>
               ⛔ <strong>Stop Covering:</strong> Cancel covering to make more hay
             </li>
+            <li>
+              🎮 <strong>Controls:</strong> Space makes hay, hold C to cover and let go to stop, P
+              pauses. On a gamepad: A, hold X or RT, Start. On a touch screen, hold Cover Hay
+            </li>
+            <li>
+              🔮 <strong>Forecast:</strong> The next few changes with how likely each is. It can be
+              wrong, more often the further ahead it looks
+            </li>
+            <li>
+              🛒 <strong>Upgrades:</strong> Spend each day&apos;s saved hay on better tools before
+              the next day. Everything you saved still counts toward your score.
+            </li>
           </ul>
         </div>
+        {resumable && (
+          <button
+            onClick={handleResume}
+            className="border-neon-blue text-neon-blue hover:bg-neon-blue mb-3 w-full rounded-lg border-4 bg-black/60 px-8 py-3 text-lg font-bold transition-all hover:text-black"
+          >
+            Resume Day {resumable.state.campaign.day + 1}
+          </button>
+        )}
         <button
           onClick={handleStart}
           className="bg-neon-green hover:bg-neon-blue w-full transform rounded-lg border-4 border-white/30 px-8 py-4 text-xl font-bold text-black shadow-[0_0_20px_rgba(0,255,157,0.5)] transition-all hover:scale-105"
@@ -399,37 +266,157 @@ export function Game({ seed, onComplete }: GameProps) {
     );
   }
 
+  if (store.isDayOver) {
+    const { campaign } = store;
+    return (
+      <div className="mx-auto max-w-2xl p-8 text-white">
+        <h1 className="from-neon-green to-neon-blue mb-2 bg-gradient-to-r bg-clip-text text-center text-4xl font-bold text-transparent">
+          DAY {campaign.dayHay.length} DONE
+        </h1>
+        <p className="mb-6 text-center text-xl text-blue-100">
+          Saved{' '}
+          <span className="text-neon-green font-bold">
+            {campaign.dayHay[campaign.dayHay.length - 1]}
+          </span>{' '}
+          hay today · <span className="text-christmas-gold font-bold">{campaign.wallet}</span> to
+          spend
+        </p>
+        <DayBreakdown record={store.record} />
+        <div className="mb-6 grid grid-cols-1 gap-3 sm:grid-cols-2">
+          {UPGRADE_IDS.map((id) => {
+            const upgrade = UPGRADES[id];
+            const cost = getUpgradeCost(campaign, id);
+            const affordable = canBuyUpgrade(campaign, id);
+            return (
+              <button
+                key={id}
+                onClick={() => store.buyUpgrade(id)}
+                disabled={!affordable}
+                className={`rounded-lg border-2 bg-black/60 p-4 text-left transition-all ${
+                  affordable
+                    ? 'border-neon-blue hover:bg-neon-blue/20'
+                    : 'cursor-not-allowed border-gray-700 opacity-60'
+                }`}
+              >
+                <div className="flex items-center justify-between font-bold">
+                  <span>
+                    {upgrade.emoji} {upgrade.label}
+                  </span>
+                  <span className="text-xs text-gray-400">
+                    {campaign.upgrades[id]}/{upgrade.costs.length}
+                  </span>
+                </div>
+                <div className="text-sm text-gray-400">{upgrade.description}</div>
+                <div className="text-christmas-gold mt-2 text-sm font-bold">
+                  {cost === null ? 'Maxed out' : `🌾 ${cost}`}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+        <button
+          onClick={store.startDay}
+          className="bg-neon-green hover:bg-neon-blue w-full transform rounded-lg border-4 border-white/30 px-8 py-4 text-xl font-bold text-black shadow-[0_0_20px_rgba(0,255,157,0.5)] transition-all hover:scale-105"
+        >
+          Start Day {campaign.day + 1}
+        </button>
+      </div>
+    );
+  }
+
   if (store.isGameOver) {
+    const shownDay = breakdownDay ?? store.history.length - 1;
     return (
       <div className="mx-auto max-w-2xl p-8 text-center text-white">
         <h1 className="from-neon-green to-neon-blue mb-4 bg-gradient-to-r bg-clip-text text-5xl font-bold text-transparent">
-          GAME OVER
+          SEASON OVER
         </h1>
         <div className="mb-6 text-6xl">🌾</div>
-        <p className="mb-8 text-3xl">
-          Final Score:{' '}
-          <span className="text-neon-green font-bold">{Math.floor(store.coveredHay)}</span> hay
+        <p className="mb-4 text-3xl">
+          Final Score: <span className="text-neon-green font-bold">{savedHay}</span> hay
         </p>
-        <button
-          onClick={handlePlayAgain}
-          className="bg-neon-green hover:bg-neon-blue transform rounded-lg border-4 border-white/30 px-8 py-4 text-xl font-bold text-black shadow-[0_0_20px_rgba(0,255,157,0.5)] transition-all hover:scale-105"
-        >
-          Play Again
-        </button>
+        <div className="mb-3 flex justify-center gap-2">
+          {store.campaign.dayHay.map((hay, i) => (
+            <button
+              key={i}
+              onClick={() => setBreakdownDay(i)}
+              className={`rounded px-3 py-1 font-mono text-sm transition-colors ${
+                i === shownDay ? 'bg-neon-blue text-black' : 'bg-gray-800 hover:bg-gray-700'
+              }`}
+            >
+              Day {i + 1}: {hay}
+            </button>
+          ))}
+        </div>
+        {store.history[shownDay] && <DayBreakdown record={store.history[shownDay]} />}
+        <pre className="mb-6 font-mono text-sm leading-relaxed text-gray-300">
+          {getShareText(store.history, store.campaign.dayHay)}
+        </pre>
+        <div className="flex justify-center gap-4">
+          <button
+            onClick={handleShare}
+            className="border-neon-blue text-neon-blue hover:bg-neon-blue transform rounded-lg border-4 bg-black/60 px-8 py-4 text-xl font-bold transition-all hover:scale-105 hover:text-black"
+          >
+            Share
+          </button>
+          <button
+            onClick={handlePlayAgain}
+            className="bg-neon-green hover:bg-neon-blue transform rounded-lg border-4 border-white/30 px-8 py-4 text-xl font-bold text-black shadow-[0_0_20px_rgba(0,255,157,0.5)] transition-all hover:scale-105"
+          >
+            Play Again
+          </button>
+        </div>
       </div>
     );
   }
 
   return (
-    <div className="mx-auto max-w-4xl p-4 text-white">
+    <div className="relative mx-auto max-w-4xl p-4 text-white">
+      {store.isPaused && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center rounded-lg bg-black/70 backdrop-blur-sm">
+          <h2 className="mb-6 text-4xl font-bold tracking-widest">PAUSED</h2>
+          <button
+            onClick={store.resume}
+            className="bg-neon-green hover:bg-neon-blue rounded-full px-6 py-2 text-lg font-bold text-black transition-all hover:scale-105"
+          >
+            ▶ RESUME
+          </button>
+        </div>
+      )}
+
       {/* Header */}
       <div className="mb-4 flex items-center justify-between">
         <div className="text-2xl">
           Time: <span className="text-neon-blue font-mono">{Math.floor(remainingTime)}s</span>
         </div>
+        <div className="flex items-center gap-3 text-lg text-gray-400">
+          Day {store.campaign.day + 1}/{SEASON_DAYS}
+          <button
+            onClick={store.pause}
+            className="rounded border border-gray-600 px-2 text-sm hover:border-white hover:text-white"
+            aria-label="Pause"
+          >
+            ⏸
+          </button>
+        </div>
         <div className="text-4xl">{WEATHER_EMOJI[store.weather.current]}</div>
       </div>
 
+      <ForecastStrip
+        forecast={forecast}
+        elapsedTime={store.elapsedTime}
+        nextChangeAt={upgrades.radar > 0 ? store.weather.nextChangeAt : null}
+      />
+
+      <FieldScene
+        seed={store.seed}
+        weather={store.weather.current}
+        uncoveredHay={store.uncoveredHay}
+        coveredHay={store.coveredHay}
+        isCovering={store.isCovering}
+        coverProgress={store.coverProgress}
+      />
+
       {/* Stats */}
       <div className="mb-6 grid grid-cols-2 gap-4">
         <div className="border-neon-green/50 rounded-lg border-2 bg-black/60 p-4 text-center">
@@ -462,33 +449,37 @@ export function Game({ seed, onComplete }: GameProps) {
         <button
           onClick={store.makeHay}
           disabled={!store.canMakeHay()}
-          className={`rounded-lg border-4 px-6 py-8 text-lg font-bold transition-all ${
+          className={`touch-manipulation rounded-lg border-4 px-6 py-8 text-lg font-bold transition-all ${
             store.canMakeHay()
               ? 'bg-neon-green/20 border-neon-green text-neon-green hover:bg-neon-green shadow-[0_0_20px_rgba(0,255,157,0.3)] hover:text-black'
               : 'cursor-not-allowed border-gray-600 bg-gray-800 text-gray-500'
           }`}
         >
           {store.isMakingHay ? `Making... ${store.makeHayProgress.toFixed(0)}%` : 'Make Hay 🌾'}
+          <span className="mt-1 block text-xs font-normal opacity-60">Space</span>
         </button>
 
+        {/* Both states are the same button, so a finger held on it stays on it */}
         {!store.isCovering ? (
           <button
-            onClick={store.startCovering}
+            {...holdToCover}
             disabled={store.uncoveredHay <= 0 || store.isCovering}
-            className={`rounded-lg border-4 px-6 py-8 text-lg font-bold transition-all ${
+            className={`touch-none select-none rounded-lg border-4 px-6 py-8 text-lg font-bold transition-all ${
               store.uncoveredHay > 0
                 ? 'bg-neon-blue/20 border-neon-blue text-neon-blue hover:bg-neon-blue shadow-[0_0_20px_rgba(0,243,255,0.3)] hover:text-black'
                 : 'cursor-not-allowed border-gray-600 bg-gray-800 text-gray-500'
             }`}
           >
             Cover Hay 🏚️
+            <span className="mt-1 block text-xs font-normal opacity-60">Hold C</span>
           </button>
         ) : (
           <button
-            onClick={store.stopCovering}
-            className="bg-neon-pink/20 border-neon-pink text-neon-pink hover:bg-neon-pink rounded-lg border-4 px-6 py-8 text-lg font-bold shadow-[0_0_20px_rgba(255,0,60,0.3)] transition-all hover:text-black"
+            {...holdToCover}
+            className="bg-neon-pink/20 border-neon-pink text-neon-pink hover:bg-neon-pink touch-none select-none rounded-lg border-4 px-6 py-8 text-lg font-bold shadow-[0_0_20px_rgba(255,0,60,0.3)] transition-all hover:text-black"
           >
             Stop Covering ⛔
+            <span className="mt-1 block text-xs font-normal opacity-60">Release C</span>
           </button>
         )}
       </div>
@@ -0,0 +1,99 @@
+import { useMemo } from 'react';
+import { resolveSeed } from '@advent/seed';
+import {
+  GAME_CONSTANTS,
+  SEASON_DAYS,
+  getDayForecastRolls,
+  getDayWeather,
+  getSeasonSeverity,
+} from './campaign';
+import { FORECAST_ERROR_PER_STEP, FORECAST_STEPS, type ForecastRoll } from './forecast';
+import { GAME_ID } from './Game';
+import { WEATHER_CONFIGS, WEATHER_EMOJI, type WeatherSegment } from './weather';
+
+interface WeatherForecastDebugProps {
+  seed?: number;
+}
+
+interface DebugDay {
+  severity: number;
+  timeline: WeatherSegment[];
+  rolls: ForecastRoll[];
+}
+
+// How many changes ahead the forecast starts calling a segment wrong, or null if it never does.
+// With the barometer the next change is always called right, whatever this says.
+const getFirstMiss = ({ roll }: ForecastRoll) => {
+  const step = Math.floor(roll / FORECAST_ERROR_PER_STEP) + 1;
+  return step <= FORECAST_STEPS ? step : null;
+};
+
+// Shows the weather and forecast misses a seed will produce on every day of the season, built
+// the same way the game builds each day, for tuning and checking daily puzzles
+export function WeatherForecastDebug({ seed }: WeatherForecastDebugProps) {
+  const gameSeed = resolveSeed(GAME_ID, seed);
+  const duration = GAME_CONSTANTS.GAME_DURATION;
+  const days = useMemo<DebugDay[]>(
+    () =>
+      Array.from({ length: SEASON_DAYS }, (_, day) => {
+        const timeline = getDayWeather(gameSeed, day);
+        return {
+          severity: getSeasonSeverity(day),
+          timeline,
+          rolls: getDayForecastRolls(gameSeed, day, timeline),
+        };
+      }),
+    [gameSeed]
+  );
+
+  return (
+    <div className="border-neon-purple/50 mx-auto mt-8 max-w-4xl rounded-lg border-2 bg-black/60 p-4 font-mono text-sm text-white">
+      <div className="text-neon-purple mb-3 font-bold">Weather forecast · seed {gameSeed}</div>
+      {days.map(({ severity, timeline, rolls }, day) => (
+        <div key={day} className="mb-6">
+          <div className="mb-2 text-gray-400">
+            Day {day + 1} · severity {severity.toFixed(2)}
+          </div>
+          <div className="mb-2 flex h-8 w-full overflow-hidden rounded">
+            {timeline.map((segment, i) => (
+              <div
+                key={i}
+                className={`flex items-center justify-center border-r border-black/40 ${
+                  WEATHER_CONFIGS[segment.type].canMakeHay ? 'bg-neon-green/30' : 'bg-gray-800'
+                }`}
+                style={{
+                  width: `${(Math.min(segment.duration, duration - segment.start) / duration) * 100}%`,
+                }}
+                title={`${segment.type} @ ${segment.start.toFixed(1)}s`}
+              >
+                {WEATHER_EMOJI[segment.type]}
+              </div>
+            ))}
+          </div>
+          <ol className="grid grid-cols-2 gap-x-6 gap-y-1 md:grid-cols-4">
+            {timeline.map((segment, i) => {
+              // The opening weather is never forecast, and a same-weather decoy is no miss
+              const miss = i > 0 && rolls[i].decoy !== segment.type ? getFirstMiss(rolls[i]) : null;
+              return (
+                <li key={i}>
+                  {segment.start.toFixed(1)}s {WEATHER_EMOJI[segment.type]}{' '}
+                  {segment.duration.toFixed(1)}s
+                  {miss !== null && (
+                    <span
+                      className="text-neon-pink"
+                      title={`Forecast as ${rolls[i].decoy} from ${miss} changes ahead`}
+                    >
+                      {' '}
+                      ✗{miss}
+                      {WEATHER_EMOJI[rolls[i].decoy]}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      ))}
+    </div>
+  );
+}
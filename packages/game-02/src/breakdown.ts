@@ -0,0 +1,106 @@
+import { getPuzzleNumber } from '@advent/seed';
+import { WEATHER_CONFIGS, WEATHER_EMOJI, type WeatherSegment, type WeatherType } from './weather';
+
+// How often the field and barn are sampled for the end-of-day chart, in game time
+export const SAMPLE_MS = 1000;
+
+// Each day is one row of the share text, one emoji for every slice this long
+const SHARE_SLICE_SECONDS = 9;
+
+export interface WeatherPhase {
+  type: WeatherType;
+  start: number;
+  end: number;
+  // Hay made while this weather lasted
+  made: number;
+}
+
+export interface DaySample {
+  field: number;
+  barn: number;
+}
+
+// What happened over one day, kept as it's played so the end screen can tell the story
+export interface DayRecord {
+  phases: WeatherPhase[];
+  // Hay the weather took off the field, by the weather that took it
+  lost: Partial<Record<WeatherType, number>>;
+  coveringMs: number;
+  coversCancelled: number;
+  // Field and barn at the start and then every SAMPLE_MS
+  samples: DaySample[];
+}
+
+export function createDayRecord(timeline: WeatherSegment[], duration: number): DayRecord {
+  return {
+    phases: timeline
+      .filter((segment) => segment.start < duration)
+      .map((segment) => ({
+        type: segment.type,
+        start: segment.start,
+        end: Math.min(segment.start + segment.duration, duration),
+        made: 0,
+      })),
+    lost: {},
+    coveringMs: 0,
+    coversCancelled: 0,
+    samples: [{ field: 0, barn: 0 }],
+  };
+}
+
+export interface RecordStep {
+  phase: number;
+  weather: WeatherType;
+  made: number;
+  lost: number;
+  coveringMs: number;
+  // Game time before and after the step, to tell when a sample is due
+  fromMs: number;
+  toMs: number;
+  sample: DaySample;
+}
+
+export function recordStep(record: DayRecord, step: RecordStep): DayRecord {
+  const sampleDue = Math.floor(step.toMs / SAMPLE_MS) > Math.floor(step.fromMs / SAMPLE_MS);
+  return {
+    ...record,
+    phases:
+      step.made > 0
+        ? record.phases.map((phase, i) =>
+            i === step.phase ? { ...phase, made: phase.made + step.made } : phase
+          )
+        : record.phases,
+    lost:
+      step.lost > 0
+        ? { ...record.lost, [step.weather]: (record.lost[step.weather] ?? 0) + step.lost }
+        : record.lost,
+    coveringMs: record.coveringMs + step.coveringMs,
+    samples: sampleDue ? [...record.samples, step.sample] : record.samples,
+  };
+}
+
+export const getHayMade = (record: DayRecord) =>
+  record.phases.reduce((total, phase) => total + phase.made, 0);
+
+export const getHayLost = (record: DayRecord) =>
+  Object.values(record.lost).reduce((total, hay) => total + (hay ?? 0), 0);
+
+// The weather at the middle of each share slice, so a day always makes a row the same length
+export function getWeatherRow(record: DayRecord): string {
+  const end = record.phases[record.phases.length - 1]?.end ?? 0;
+  const slices = Math.ceil(end / SHARE_SLICE_SECONDS);
+  return Array.from({ length: slices }, (_, i) => {
+    const time = (i + 0.5) * SHARE_SLICE_SECONDS;
+    const phase =
+      record.phases.find((p) => time < p.end) ?? record.phases[record.phases.length - 1];
+    return WEATHER_EMOJI[phase.type];
+  }).join('');
+}
+
+export function getShareText(history: DayRecord[], dayHay: number[]): string {
+  const total = dayHay.reduce((sum, hay) => sum + hay, 0);
+  const rows = history.map((record, i) => `${getWeatherRow(record)} ${dayHay[i] ?? 0}`);
+  return [`Hay Girl #${getPuzzleNumber()} 🌾`, `🏚️ ${total} hay saved`, ...rows].join('\n');
+}
+
+export const isLossWeather = (type: WeatherType) => WEATHER_CONFIGS[type].hayLossRate > 0;
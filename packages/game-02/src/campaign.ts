@@ -0,0 +1,157 @@
+import { rollForecasts, type ForecastRoll } from './forecast';
+import { generateWeatherTimeline, type WeatherSegment } from './weather';
+
+export const GAME_CONSTANTS = {
+  GAME_DURATION: 90,
+  BASE_COVER_TIME: 2,
+  COVER_SCALING_FACTOR: 0.1,
+  MAKE_HAY_DURATION: 0.25,
+  TICK_RATE: 100,
+  MAX_FIELD_HAY: 90,
+};
+
+export type DayConstants = typeof GAME_CONSTANTS;
+
+// A season is a run of days back to back; hay saved on each one pays for upgrades before the next
+export const SEASON_DAYS = 5;
+
+export type UpgradeId = 'pitchfork' | 'tarp' | 'field' | 'barometer' | 'radar';
+
+export interface UpgradeConfig {
+  label: string;
+  emoji: string;
+  description: string;
+  // Price of each level in covered hay; the length is the highest level
+  costs: number[];
+  apply: (constants: DayConstants, level: number) => DayConstants;
+}
+
+export const UPGRADES: Record<UpgradeId, UpgradeConfig> = {
+  pitchfork: {
+    label: 'Pitchfork',
+    emoji: '🔱',
+    description: 'Make hay 20% faster',
+    costs: [40, 80, 140],
+    apply: (constants, level) => ({
+      ...constants,
+      MAKE_HAY_DURATION: constants.MAKE_HAY_DURATION * 0.8 ** level,
+    }),
+  },
+  tarp: {
+    label: 'Tarp',
+    emoji: '⛺',
+    description: 'Big piles cover 25% faster',
+    costs: [40, 80, 140],
+    apply: (constants, level) => ({
+      ...constants,
+      COVER_SCALING_FACTOR: constants.COVER_SCALING_FACTOR * 0.75 ** level,
+    }),
+  },
+  field: {
+    label: 'Bigger Field',
+    emoji: '🌾',
+    description: 'Room for 30 more hay in the field',
+    costs: [60, 120],
+    apply: (constants, level) => ({
+      ...constants,
+      MAX_FIELD_HAY: constants.MAX_FIELD_HAY + 30 * level,
+    }),
+  },
+  barometer: {
+    label: 'Barometer',
+    emoji: '🌡️',
+    description: 'The next forecast is never wrong',
+    costs: [75],
+    apply: (constants) => constants,
+  },
+  radar: {
+    label: 'Radar',
+    emoji: '📡',
+    description: 'See when the weather will change',
+    costs: [90],
+    apply: (constants) => constants,
+  },
+};
+
+export const UPGRADE_IDS = Object.keys(UPGRADES) as UpgradeId[];
+
+export type UpgradeLevels = Record<UpgradeId, number>;
+
+export interface Campaign {
+  // Zero-based day of the season being played, or about to be
+  day: number;
+  // Hay saved and not yet spent on upgrades
+  wallet: number;
+  // Hay saved each finished day; the season score is their sum, whatever was spent
+  dayHay: number[];
+  upgrades: UpgradeLevels;
+}
+
+export const createCampaign = (): Campaign => ({
+  day: 0,
+  wallet: 0,
+  dayHay: [],
+  upgrades: { pitchfork: 0, tarp: 0, field: 0, barometer: 0, radar: 0 },
+});
+
+export const getSeasonHay = (campaign: Campaign) =>
+  campaign.dayHay.reduce((total, hay) => total + hay, 0);
+
+export const isSeasonOver = (campaign: Campaign) => campaign.dayHay.length >= SEASON_DAYS;
+
+export function finishDay(campaign: Campaign, coveredHay: number): Campaign {
+  const hay = Math.floor(coveredHay);
+  return {
+    ...campaign,
+    day: Math.min(campaign.day + 1, SEASON_DAYS - 1),
+    wallet: campaign.wallet + hay,
+    dayHay: [...campaign.dayHay, hay],
+  };
+}
+
+// Null once the upgrade is maxed out
+export function getUpgradeCost(campaign: Campaign, id: UpgradeId): number | null {
+  return UPGRADES[id].costs[campaign.upgrades[id]] ?? null;
+}
+
+export function canBuyUpgrade(campaign: Campaign, id: UpgradeId): boolean {
+  const cost = getUpgradeCost(campaign, id);
+  return cost !== null && cost <= campaign.wallet;
+}
+
+export function buyUpgrade(campaign: Campaign, id: UpgradeId): Campaign {
+  const cost = getUpgradeCost(campaign, id);
+  if (cost === null || cost > campaign.wallet) return campaign;
+  return {
+    ...campaign,
+    wallet: campaign.wallet - cost,
+    upgrades: { ...campaign.upgrades, [id]: campaign.upgrades[id] + 1 },
+  };
+}
+
+export const getDayConstants = (upgrades: UpgradeLevels): DayConstants =>
+  UPGRADE_IDS.reduce(
+    (constants, id) => UPGRADES[id].apply(constants, upgrades[id]),
+    GAME_CONSTANTS
+  );
+
+// 0 on the first day up to 1 on the last, when bad weather comes most often
+export const getSeasonSeverity = (day: number) =>
+  SEASON_DAYS > 1 ? Math.min(1, day / (SEASON_DAYS - 1)) : 0;
+
+// The first day rolls the same sky as a single session always has; later days get their own
+const getDayStream = (day: number) => (day === 0 ? 'weather' : `weather-day-${day + 1}`);
+
+export const getDayWeather = (seed: number, day: number): WeatherSegment[] =>
+  generateWeatherTimeline(
+    seed,
+    GAME_CONSTANTS.GAME_DURATION,
+    getSeasonSeverity(day),
+    getDayStream(day)
+  );
+
+export const getDayForecastRolls = (
+  seed: number,
+  day: number,
+  timeline: WeatherSegment[]
+): ForecastRoll[] => rollForecasts(seed, timeline, getSeasonSeverity(day), getDayStream(day));
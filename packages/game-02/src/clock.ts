@@ -0,0 +1,23 @@
+// Where the game gets the time from. The store only ever moves by the deltas it's handed, so a
+// test can swap in a manual clock and step a whole day forward without waiting for it.
+export interface Clock {
+  now: () => number;
+}
+
+export const systemClock: Clock = {
+  now: () => performance.now(),
+};
+
+export interface ManualClock extends Clock {
+  advance: (ms: number) => void;
+}
+
+export function createManualClock(start = 0): ManualClock {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms) => {
+      time += ms;
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { useEffect, useRef, type MouseEvent, type PointerEvent } from 'react';
+import { useGameStoreApi, type GameStore } from './store';
+
+// Standard-mapping gamepad buttons: A / Cross makes hay, X / Square or the right trigger covers
+// while held, Start pauses
+const PAD_MAKE_HAY = 0;
+const PAD_COVER = [2, 7];
+const PAD_PAUSE = 9;
+
+const togglePause = (store: GameStore) => {
+  const state = store.getState();
+  if (state.isPaused) state.resume();
+  else state.pause();
+};
+
+// Space makes hay; C covers while it's held and stops when it's let go; P or Escape pauses
+export function useKeyboardControls(enabled: boolean) {
+  const store = useGameStoreApi();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const state = store.getState();
+      if (e.key === ' ') {
+        // Also stops a focused button from being clicked by the same press
+        e.preventDefault();
+        if (!e.repeat) state.makeHay();
+      } else if (e.key.toLowerCase() === 'c') {
+        if (!e.repeat) state.startCovering();
+      } else if (e.key.toLowerCase() === 'p' || e.key === 'Escape') {
+        togglePause(store);
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.key === ' ') e.preventDefault();
+      else if (e.key.toLowerCase() === 'c') store.getState().stopCovering();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [enabled, store]);
+}
+
+// The Gamepad API has no events for buttons, so connected pads are polled once a frame and
+// acted on when a button goes down or up
+export function useGamepadControls(enabled: boolean) {
+  const store = useGameStoreApi();
+
+  useEffect(() => {
+    if (!enabled || typeof navigator.getGamepads !== 'function') return;
+    let request = 0;
+    let wasMaking = false;
+    let wasCovering = false;
+    let wasPausing = false;
+
+    const poll = () => {
+      const pads = navigator.getGamepads().filter((pad): pad is Gamepad => pad !== null);
+      const held = (index: number) => pads.some((pad) => pad.buttons[index]?.pressed);
+      const making = held(PAD_MAKE_HAY);
+      const covering = PAD_COVER.some(held);
+      const pausing = held(PAD_PAUSE);
+      const state = store.getState();
+
+      if (making && !wasMaking) state.makeHay();
+      if (covering && !wasCovering) state.startCovering();
+      if (!covering && wasCovering) state.stopCovering();
+      if (pausing && !wasPausing) togglePause(store);
+
+      wasMaking = making;
+      wasCovering = covering;
+      wasPausing = pausing;
+      request = requestAnimationFrame(poll);
+    };
+
+    request = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(request);
+  }, [enabled, store]);
+}
+
+// Props for the cover button. On a touch screen it covers while a finger is held on it and stops
+// when the finger lifts; a mouse keeps click to start and click again to stop.
+export function useHoldToCover() {
+  const store = useGameStoreApi();
+  // Set by a touch, so the click the browser fires after it doesn't toggle covering back
+  const touched = useRef(false);
+
+  const release = (e: PointerEvent) => {
+    if (e.pointerType === 'touch') store.getState().stopCovering();
+  };
+
+  return {
+    onPointerDown: (e: PointerEvent) => {
+      touched.current = e.pointerType === 'touch';
+      if (touched.current) store.getState().startCovering();
+    },
+    onPointerUp: release,
+    onPointerCancel: release,
+    onClick: () => {
+      if (touched.current) return;
+      const state = store.getState();
+      if (state.isCovering) state.stopCovering();
+      else state.startCovering();
+    },
+    // A long press would otherwise open the context menu partway through covering
+    onContextMenu: (e: MouseEvent) => e.preventDefault(),
+  };
+}
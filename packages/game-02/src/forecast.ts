@@ -0,0 +1,82 @@
+import { Rng } from '@advent/rng';
+import { WeatherType, getTransitionOdds, type WeatherSegment } from './weather';
+
+// How many upcoming weather changes the strip shows
+export const FORECAST_STEPS = 3;
+
+// Chance a forecast is wrong for each change it looks ahead, so the one after next is twice as
+// likely to be wrong as the next one, and a bad call gets put right as the weather draws near
+export const FORECAST_ERROR_PER_STEP = 0.12;
+
+// Rolled once per segment up front, so the forecast for a segment never flickers between ticks
+export interface ForecastRoll {
+  roll: number;
+  // What the forecast says instead when it's wrong
+  decoy: WeatherType;
+}
+
+export interface ForecastEntry {
+  type: WeatherType;
+  // Chance of this weather that many changes from now, going by the transition odds alone
+  confidence: number;
+  start: number;
+}
+
+export function rollForecasts(
+  seed: number,
+  timeline: WeatherSegment[],
+  severity: number,
+  stream: string
+): ForecastRoll[] {
+  const rng = new Rng(seed).fork(`${stream}-forecast`);
+  return timeline.map((segment, i) => {
+    const roll = rng.next();
+    if (i === 0) return { roll, decoy: segment.type };
+    const odds = getTransitionOdds(timeline[i - 1].type, severity);
+    const decoys = (Object.keys(odds) as WeatherType[]).filter(
+      (type) => type !== segment.type && odds[type] > 0
+    );
+    return { roll, decoy: decoys.length > 0 ? rng.pick(decoys) : segment.type };
+  });
+}
+
+// The next few changes after segment `index`. With `exactNext` the first one is always right.
+export function getForecast(
+  timeline: WeatherSegment[],
+  rolls: ForecastRoll[],
+  index: number,
+  severity: number,
+  exactNext = false
+): ForecastEntry[] {
+  const forecast: ForecastEntry[] = [];
+  if (!timeline[index]) return forecast;
+  let odds = stepOdds({ [timeline[index].type]: 1 }, severity);
+
+  for (let step = 1; step <= FORECAST_STEPS && index + step < timeline.length; step++) {
+    const segment = timeline[index + step];
+    const { roll, decoy } = rolls[index + step];
+    const wrong = !(exactNext && step === 1) && roll < FORECAST_ERROR_PER_STEP * step;
+    const type = wrong ? decoy : segment.type;
+    forecast.push({ type, confidence: odds[type] ?? 0, start: segment.start });
+    odds = stepOdds(odds, severity);
+  }
+
+  return forecast;
+}
+
+// One more change along the weather's Markov chain, from a spread of what it might be now
+function stepOdds(
+  current: Partial<Record<WeatherType, number>>,
+  severity: number
+): Partial<Record<WeatherType, number>> {
+  const next: Partial<Record<WeatherType, number>> = {};
+  for (const from of Object.values(WeatherType)) {
+    const chance = current[from] ?? 0;
+    if (chance === 0) continue;
+    const odds = getTransitionOdds(from, severity);
+    for (const to of Object.values(WeatherType)) {
+      next[to] = (next[to] ?? 0) + chance * odds[to];
+    }
+  }
+  return next;
+}
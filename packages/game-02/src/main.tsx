@@ -1,11 +1,18 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import type { GameResult } from '@advent/contract';
 import { Game } from './Game';
+import { WeatherForecastDebug } from './WeatherForecastDebug';
 import './index.css';
 
+// ?seed=123 pins the puzzle, ?debug shows the weather it will produce
+const params = new URLSearchParams(window.location.search);
+const seed = params.has('seed') ? Number(params.get('seed')) : undefined;
+const debug = params.has('debug');
+
 function App() {
-  const handleComplete = (score: number) => {
-    console.log('Game completed with score:', score);
+  const handleComplete = (result: GameResult) => {
+    console.log('Game completed:', result);
   };
 
   return (
@@ -20,7 +27,8 @@ function App() {
         padding: '2rem',
       }}
     >
-      <Game onComplete={handleComplete} />
+      <Game seed={seed} onComplete={handleComplete} />
+      {debug && <WeatherForecastDebug seed={seed} />}
     </div>
   );
 }
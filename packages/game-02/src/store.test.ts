@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { GAME_CONSTANTS } from './campaign';
+import { createManualClock } from './clock';
+import { createGameStore, isRestorable, type GameSnapshot, type GameStore } from './store';
+
+const DAY_MS = GAME_CONSTANTS.GAME_DURATION * 1000;
+const COVER_FROM_MS = DAY_MS - 1000;
+
+// Plays a day on a manual clock in frames of frameMs, the way the game's clock hook feeds the
+// store, starting to cover a full field a second before the end
+function playDay(frameMs: number): GameStore {
+  const store = createGameStore();
+  const clock = createManualClock();
+  store.getState().startGame(1);
+
+  let last = clock.now();
+  const frame = (ms: number) => {
+    clock.advance(ms);
+    store.getState().advance(clock.now() - last);
+    last = clock.now();
+  };
+
+  // The same 100ms frames for everyone up to the cover, so only the last second differs
+  while (store.getState().elapsedMs < COVER_FROM_MS) frame(GAME_CONSTANTS.TICK_RATE);
+  store.setState({ uncoveredHay: 50 });
+  store.getState().startCovering();
+  while (store.getState().isPlaying) frame(frameMs);
+  return store;
+}
+
+describe('advance', () => {
+  it('plays the slice the day ends in before ending the day', () => {
+    // 130ms frames put the end of the day 90ms into a frame
+    expect((DAY_MS - COVER_FROM_MS) % 130).not.toBe(0);
+    const state = playDay(130).getState();
+
+    expect(state.isPlaying).toBe(false);
+    expect(state.elapsedMs).toBe(DAY_MS);
+    expect(state.record.coveringMs).toBe(1000);
+  });
+
+  it('ends the day the same whatever the frame size', () => {
+    const even = playDay(GAME_CONSTANTS.TICK_RATE).getState();
+
+    for (const frameMs of [16.7, 130, 250]) {
+      const uneven = playDay(frameMs).getState();
+      expect(uneven.coveredHay).toBe(even.coveredHay);
+      expect(uneven.uncoveredHay).toBe(even.uncoveredHay);
+      expect(uneven.record.coveringMs).toBeCloseTo(even.record.coveringMs, 6);
+      expect(uneven.record.samples).toEqual(even.record.samples);
+    }
+  });
+});
+
+describe('restore', () => {
+  const saveDay = () => {
+    const store = createGameStore();
+    store.getState().startGame(1);
+    store.getState().advance(5000);
+    return store.getState().snapshot();
+  };
+
+  it('picks up a saved day, paused', () => {
+    const store = createGameStore();
+    expect(store.getState().restore(saveDay())).toBe(true);
+
+    expect(store.getState().elapsedMs).toBe(5000);
+    expect(store.getState().isPaused).toBe(true);
+  });
+
+  it('turns down a save that is missing parts or has the wrong types', () => {
+    const saved = saveDay();
+    const corrupt = [
+      null,
+      { version: saved.version },
+      { ...saved, version: 1 },
+      { ...saved, state: { ...saved.state, campaign: null } },
+      { ...saved, state: { ...saved.state, campaign: { ...saved.state.campaign, day: '2' } } },
+      { ...saved, state: { ...saved.state, elapsedMs: 'soon' } },
+      { ...saved, state: { ...saved.state, history: {} } },
+    ];
+
+    for (const snapshot of corrupt) {
+      const store = createGameStore();
+      expect(isRestorable(snapshot)).toBe(false);
+      expect(store.getState().restore(snapshot as GameSnapshot)).toBe(false);
+      expect(store.getState().isPlaying).toBe(false);
+    }
+  });
+});
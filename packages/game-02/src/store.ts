@@ -0,0 +1,424 @@
+import { createContext, useContext } from 'react';
+import { createStore, useStore, type StoreApi } from 'zustand';
+import { SAMPLE_MS, createDayRecord, recordStep, type DayRecord } from './breakdown';
+import {
+  GAME_CONSTANTS,
+  buyUpgrade,
+  createCampaign,
+  finishDay,
+  getDayConstants,
+  getDayForecastRolls,
+  getDayWeather,
+  isSeasonOver,
+  type Campaign,
+  type DayConstants,
+  type UpgradeId,
+} from './campaign';
+import type { ForecastRoll } from './forecast';
+import { WEATHER_CONFIGS, WeatherType, type WeatherSegment } from './weather';
+
+export interface GameState {
+  isPlaying: boolean;
+  // Between days of the season, while upgrades are on offer
+  isDayOver: boolean;
+  isGameOver: boolean;
+  seed: number;
+  campaign: Campaign;
+  constants: DayConstants;
+  isPaused: boolean;
+  // Game time; it only moves when the store is advanced, never by itself. Whole-tick steps sum
+  // exactly in milliseconds, so a day always ends on its last tick.
+  elapsedMs: number;
+  elapsedTime: number;
+  uncoveredHay: number;
+  coveredHay: number;
+  isMakingHay: boolean;
+  makeHayProgress: number;
+  // In game time, like every other time the store keeps
+  makeHayStartTime: number | null;
+  isCovering: boolean;
+  coverProgress: number;
+  coverStartTime: number | null;
+  coverDuration: number;
+  hayBeingTransferred: number;
+  startUncoveredHay: number;
+  startCoveredHay: number;
+  weather: {
+    current: WeatherType;
+    nextChangeAt: number;
+    duration: number;
+  };
+  weatherTimeline: WeatherSegment[];
+  weatherIndex: number;
+  forecastRolls: ForecastRoll[];
+  record: DayRecord;
+  // Records of the finished days, in order
+  history: DayRecord[];
+}
+
+const toWeather = (segment: WeatherSegment): GameState['weather'] => ({
+  current: segment.type,
+  nextChangeAt: segment.start + segment.duration,
+  duration: segment.duration,
+});
+
+const calculateCoverDuration = (constants: DayConstants, hay: number) => {
+  return constants.BASE_COVER_TIME + hay * constants.COVER_SCALING_FACTOR;
+};
+
+// One slice of game time, no longer than a tick, so hay loss and progress don't depend on how
+// often the clock happens to fire
+function stepDay(state: GameState, dtMs: number): Partial<GameState> {
+  const elapsedMs = state.elapsedMs + dtMs;
+  const elapsedTime = elapsedMs / 1000;
+  const updates: Partial<GameState> = { elapsedMs, elapsedTime };
+
+  let made = 0;
+  let lost = 0;
+
+  // Handle hay-making
+  if (state.isMakingHay && state.makeHayStartTime !== null) {
+    const elapsed = elapsedTime - state.makeHayStartTime;
+    const progress = Math.min((elapsed / state.constants.MAKE_HAY_DURATION) * 100, 100);
+
+    if (progress >= 100) {
+      updates.isMakingHay = false;
+      updates.makeHayProgress = 0;
+      updates.makeHayStartTime = null;
+      updates.uncoveredHay = Math.min(state.uncoveredHay + 1, state.constants.MAX_FIELD_HAY);
+      made = updates.uncoveredHay - state.uncoveredHay;
+    } else {
+      updates.makeHayProgress = progress;
+    }
+  }
+
+  // Handle covering
+  if (state.isCovering && state.coverStartTime !== null) {
+    const elapsed = elapsedTime - state.coverStartTime;
+    const progress = Math.min((elapsed / state.coverDuration) * 100, 100);
+    const progressRatio = progress / 100;
+
+    const transferred = Math.floor(state.hayBeingTransferred * progressRatio);
+    updates.coveredHay = Math.max(0, state.startCoveredHay + transferred);
+    updates.uncoveredHay = Math.max(0, state.startUncoveredHay - transferred);
+
+    if (progress >= 100) {
+      updates.isCovering = false;
+      updates.coverProgress = 0;
+      updates.coverStartTime = null;
+      updates.hayBeingTransferred = 0;
+    } else {
+      updates.coverProgress = progress;
+    }
+  }
+
+  // Handle hay loss
+  const fieldHay = updates.uncoveredHay ?? state.uncoveredHay;
+  if (!state.isCovering && fieldHay > 0) {
+    const config = WEATHER_CONFIGS[state.weather.current];
+    if (config.hayLossRate > 0) {
+      const lossAmount = (config.hayLossRate * dtMs) / 1000;
+      updates.uncoveredHay = Math.max(0, fieldHay - lossAmount);
+      lost = fieldHay - updates.uncoveredHay;
+    }
+  }
+
+  // Handle weather changes
+  if (elapsedTime >= state.weather.nextChangeAt) {
+    let index = state.weatherIndex;
+    const timeline = state.weatherTimeline;
+    while (index < timeline.length - 1 && elapsedTime >= timeline[index + 1].start) index++;
+    updates.weatherIndex = index;
+    updates.weather = toWeather(timeline[index]);
+  }
+
+  updates.record = recordStep(state.record, {
+    phase: state.weatherIndex,
+    weather: state.weather.current,
+    made,
+    lost,
+    coveringMs: state.isCovering ? dtMs : 0,
+    fromMs: state.elapsedMs,
+    toMs: elapsedMs,
+    sample: {
+      field: updates.uncoveredHay ?? state.uncoveredHay,
+      barn: updates.coveredHay ?? state.coveredHay,
+    },
+  });
+
+  return updates;
+}
+
+export interface GameActions {
+  startGame: (seed: number) => void;
+  startDay: () => void;
+  buyUpgrade: (id: UpgradeId) => void;
+  advance: (dtMs: number) => void;
+  pause: () => void;
+  resume: () => void;
+  makeHay: () => void;
+  startCovering: () => void;
+  stopCovering: () => void;
+  endGame: () => void;
+  canMakeHay: () => boolean;
+  snapshot: () => GameSnapshot;
+  restore: (snapshot: GameSnapshot) => boolean;
+}
+
+export type GameStore = StoreApi<GameState & GameActions>;
+
+// A run frozen mid-game, plain data only, so it can go through JSON and come back
+export interface GameSnapshot {
+  version: number;
+  state: GameState;
+}
+
+// Bumped whenever GameState changes shape, so an old save is dropped rather than misread
+const SNAPSHOT_VERSION = 2;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Saves come back from storage, so one is only picked up again if it has this version's shape:
+// the campaign, the day's clock and the records the screens read straight away
+export function isRestorable(snapshot: unknown): snapshot is GameSnapshot {
+  if (!isObject(snapshot) || snapshot.version !== SNAPSHOT_VERSION) return false;
+  const { state } = snapshot;
+  if (!isObject(state) || !isObject(state.campaign)) return false;
+  const { campaign } = state;
+  return (
+    Number.isInteger(campaign.day) &&
+    isNumber(campaign.wallet) &&
+    Array.isArray(campaign.dayHay) &&
+    campaign.dayHay.every(isNumber) &&
+    isObject(campaign.upgrades) &&
+    isNumber(state.seed) &&
+    isNumber(state.elapsedMs) &&
+    isNumber(state.elapsedTime) &&
+    isObject(state.constants) &&
+    isObject(state.weather) &&
+    Array.isArray(state.weatherTimeline) &&
+    isObject(state.record) &&
+    Array.isArray(state.history)
+  );
+}
+
+const createInitialState = (): GameState => ({
+  isPlaying: false,
+  isDayOver: false,
+  isGameOver: false,
+  seed: 0,
+  campaign: createCampaign(),
+  constants: GAME_CONSTANTS,
+  isPaused: false,
+  elapsedMs: 0,
+  elapsedTime: 0,
+  uncoveredHay: 0,
+  coveredHay: 0,
+  isMakingHay: false,
+  makeHayProgress: 0,
+  makeHayStartTime: null,
+  isCovering: false,
+  coverProgress: 0,
+  coverStartTime: null,
+  coverDuration: 0,
+  hayBeingTransferred: 0,
+  startUncoveredHay: 0,
+  startCoveredHay: 0,
+  weather: {
+    current: WeatherType.SUNNY,
+    nextChangeAt: 5,
+    duration: 5,
+  },
+  weatherTimeline: [],
+  weatherIndex: 0,
+  forecastRolls: [],
+  record: createDayRecord([], GAME_CONSTANTS.GAME_DURATION),
+  history: [],
+});
+
+// Each <Game> makes its own, so two on a page, or a remounted island, never share a run
+export const createGameStore = (): GameStore =>
+  createStore<GameState & GameActions>()((set, get) => ({
+    ...createInitialState(),
+
+    startGame: (seed) => {
+      set({ seed, campaign: createCampaign(), history: [] });
+      get().startDay();
+    },
+
+    startDay: () => {
+      const { seed, campaign } = get();
+      const weatherTimeline = getDayWeather(seed, campaign.day);
+      set({
+        isPlaying: true,
+        isDayOver: false,
+        isGameOver: false,
+        constants: getDayConstants(campaign.upgrades),
+        isPaused: false,
+        elapsedMs: 0,
+        elapsedTime: 0,
+        uncoveredHay: 0,
+        coveredHay: 0,
+        isMakingHay: false,
+        makeHayProgress: 0,
+        makeHayStartTime: null,
+        isCovering: false,
+        coverProgress: 0,
+        coverStartTime: null,
+        weather: toWeather(weatherTimeline[0]),
+        weatherTimeline,
+        weatherIndex: 0,
+        forecastRolls: getDayForecastRolls(seed, campaign.day, weatherTimeline),
+        record: createDayRecord(weatherTimeline, GAME_CONSTANTS.GAME_DURATION),
+      });
+    },
+
+    buyUpgrade: (id) => {
+      const state = get();
+      if (!state.isDayOver) return;
+      set({ campaign: buyUpgrade(state.campaign, id) });
+    },
+
+    // Ends the day being played, and the season with it after the last one
+    endGame: () => {
+      const state = get();
+      const campaign = finishDay(state.campaign, state.coveredHay);
+      const seasonOver = isSeasonOver(campaign);
+      // The last sample is the day's final field and barn, whenever the day ended, unless the
+      // last step landed on a sample and took it already
+      const record =
+        (state.record.samples.length - 1) * SAMPLE_MS === state.elapsedMs
+          ? state.record
+          : {
+              ...state.record,
+              samples: [
+                ...state.record.samples,
+                { field: state.uncoveredHay, barn: state.coveredHay },
+              ],
+            };
+      set({
+        isPlaying: false,
+        isDayOver: !seasonOver,
+        isGameOver: seasonOver,
+        campaign,
+        record,
+        history: [...state.history, record],
+      });
+    },
+
+    // Moves the day on by dtMs of game time, a tick at a time, ending it when the time is up. The
+    // slice that reaches the end is played like any other first, so covering and hay-making in
+    // it count however the frames happened to fall.
+    advance: (dtMs) => {
+      const dayMs = GAME_CONSTANTS.GAME_DURATION * 1000;
+      let remaining = dtMs;
+      while (remaining > 0) {
+        const state = get();
+        if (!state.isPlaying || state.isPaused) return;
+
+        const dt = Math.max(
+          0,
+          Math.min(remaining, GAME_CONSTANTS.TICK_RATE, dayMs - state.elapsedMs)
+        );
+        remaining -= dt;
+        const updates = stepDay(state, dt);
+        if (state.elapsedMs + dt < dayMs) {
+          set(updates);
+          continue;
+        }
+        // Pinned, so the day ends on exactly its last millisecond whatever the deltas summed to
+        set({ ...updates, elapsedMs: dayMs, elapsedTime: GAME_CONSTANTS.GAME_DURATION });
+        get().endGame();
+        return;
+      }
+    },
+
+    pause: () => {
+      if (get().isPlaying) set({ isPaused: true });
+    },
+
+    resume: () => {
+      set({ isPaused: false });
+    },
+
+    makeHay: () => {
+      const state = get();
+      if (!get().canMakeHay()) return;
+      if (state.uncoveredHay >= state.constants.MAX_FIELD_HAY) return;
+
+      set({
+        isMakingHay: true,
+        makeHayProgress: 0,
+        makeHayStartTime: state.elapsedTime,
+      });
+    },
+
+    startCovering: () => {
+      const state = get();
+      if (!state.isPlaying || state.isPaused || state.isCovering || state.uncoveredHay <= 0) return;
+
+      const duration = calculateCoverDuration(state.constants, state.uncoveredHay);
+      set({
+        isCovering: true,
+        coverProgress: 0,
+        coverStartTime: state.elapsedTime,
+        coverDuration: duration,
+        hayBeingTransferred: state.uncoveredHay,
+        startUncoveredHay: state.uncoveredHay,
+        startCoveredHay: state.coveredHay,
+      });
+    },
+
+    stopCovering: () => {
+      const state = get();
+      if (!state.isCovering || state.isPaused) return;
+
+      const progressRatio = state.coverProgress / 100;
+      const transferred = Math.floor(state.hayBeingTransferred * progressRatio);
+
+      set({
+        isCovering: false,
+        coverProgress: 0,
+        coverStartTime: null,
+        hayBeingTransferred: 0,
+        uncoveredHay: Math.max(0, state.startUncoveredHay - transferred),
+        record: { ...state.record, coversCancelled: state.record.coversCancelled + 1 },
+      });
+    },
+
+    canMakeHay: () => {
+      const state = get();
+      if (!state.isPlaying || state.isPaused || state.isCovering || state.isMakingHay) return false;
+      if (state.uncoveredHay >= state.constants.MAX_FIELD_HAY) return false;
+      return WEATHER_CONFIGS[state.weather.current].canMakeHay;
+    },
+
+    // The JSON round trip drops the actions and proves the rest survives being saved
+    snapshot: () => ({
+      version: SNAPSHOT_VERSION,
+      state: JSON.parse(JSON.stringify(get())) as GameState,
+    }),
+
+    // A restored day comes back paused, so nothing is lost before the player is ready
+    restore: (snapshot) => {
+      if (!isRestorable(snapshot)) return false;
+      set({ ...snapshot.state, isPaused: snapshot.state.isPlaying });
+      return true;
+    },
+  }));
+
+export const GameStoreContext = createContext<GameStore | null>(null);
+
+// The nearest <Game>'s store itself, for reading it in effects without subscribing
+export function useGameStoreApi(): GameStore {
+  const store = useContext(GameStoreContext);
+  if (!store) throw new Error('Hay Girl store used outside a GameStoreContext provider');
+  return store;
+}
+
+// The nearest <Game>'s state and actions, re-rendering on every change
+export const useGameStore = () => useStore(useGameStoreApi());
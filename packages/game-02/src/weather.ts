@@ -0,0 +1,141 @@
+import { Rng } from '@advent/rng';
+
+// Weather types
+export enum WeatherType {
+  SUNNY = 'sunny',
+  CLOUDY = 'cloudy',
+  WINDY = 'windy',
+  RAINY = 'rainy',
+  SNOWING = 'snowing',
+}
+
+export const WEATHER_EMOJI: Record<WeatherType, string> = {
+  [WeatherType.SUNNY]: '☀️',
+  [WeatherType.CLOUDY]: '☁️',
+  [WeatherType.WINDY]: '💨',
+  [WeatherType.RAINY]: '🌧️',
+  [WeatherType.SNOWING]: '❄️',
+};
+
+export interface WeatherConfig {
+  canMakeHay: boolean;
+  hayLossRate: number;
+  minDuration: number;
+  maxDuration: number;
+  possibleTransitions: WeatherType[];
+}
+
+export const WEATHER_CONFIGS: Record<WeatherType, WeatherConfig> = {
+  [WeatherType.SUNNY]: {
+    canMakeHay: true,
+    hayLossRate: 0,
+    minDuration: 2,
+    maxDuration: 6,
+    possibleTransitions: [
+      WeatherType.SUNNY,
+      WeatherType.SUNNY,
+      WeatherType.CLOUDY,
+      WeatherType.WINDY,
+    ],
+  },
+  [WeatherType.CLOUDY]: {
+    canMakeHay: false,
+    hayLossRate: 0,
+    minDuration: 2,
+    maxDuration: 3,
+    possibleTransitions: [
+      WeatherType.SUNNY,
+      WeatherType.SUNNY,
+      WeatherType.SUNNY,
+      WeatherType.CLOUDY,
+      WeatherType.WINDY,
+      WeatherType.RAINY,
+    ],
+  },
+  [WeatherType.WINDY]: {
+    canMakeHay: false,
+    hayLossRate: 1.5,
+    minDuration: 2,
+    maxDuration: 3,
+    possibleTransitions: [
+      WeatherType.SUNNY,
+      WeatherType.SUNNY,
+      WeatherType.CLOUDY,
+      WeatherType.RAINY,
+    ],
+  },
+  [WeatherType.RAINY]: {
+    canMakeHay: false,
+    hayLossRate: 3,
+    minDuration: 2,
+    maxDuration: 3,
+    possibleTransitions: [
+      WeatherType.SUNNY,
+      WeatherType.SUNNY,
+      WeatherType.CLOUDY,
+      WeatherType.WINDY,
+      WeatherType.SNOWING,
+      WeatherType.SNOWING,
+    ],
+  },
+  [WeatherType.SNOWING]: {
+    canMakeHay: false,
+    hayLossRate: 50,
+    minDuration: 1,
+    maxDuration: 2,
+    possibleTransitions: [WeatherType.SUNNY, WeatherType.SUNNY, WeatherType.CLOUDY],
+  },
+};
+
+export interface WeatherSegment {
+  type: WeatherType;
+  start: number;
+  duration: number;
+}
+
+// Extra copies of each damaging transition at full severity, so bad weather follows more often
+const MAX_EXTRA_STORM_WEIGHT = 2;
+// How much shorter sunny spells get at full severity
+const MAX_SUN_SHRINK = 0.4;
+
+// At severity 0 this is the config's own list, so an unescalated timeline never changes
+function escalate(transitions: WeatherType[], severity: number): WeatherType[] {
+  const extra = Math.round(severity * MAX_EXTRA_STORM_WEIGHT);
+  if (extra === 0) return transitions;
+  const storms = transitions.filter((type) => WEATHER_CONFIGS[type].hayLossRate > 0);
+  return [...transitions, ...Array.from({ length: extra }, () => storms).flat()];
+}
+
+// Chance of each weather following `from`, as the timeline generator would roll it
+export function getTransitionOdds(from: WeatherType, severity = 0): Record<WeatherType, number> {
+  const transitions = escalate(WEATHER_CONFIGS[from].possibleTransitions, severity);
+  const odds = {} as Record<WeatherType, number>;
+  for (const type of Object.values(WeatherType)) odds[type] = 0;
+  for (const type of transitions) odds[type] += 1 / transitions.length;
+  return odds;
+}
+
+// The whole run's weather is rolled up front from the seed, so everyone sees the same sky.
+// Severity, from 0 to 1, makes storms more likely and sunny spells shorter.
+export function generateWeatherTimeline(
+  seed: number,
+  totalDuration: number,
+  severity = 0,
+  stream = 'weather'
+): WeatherSegment[] {
+  const rng = new Rng(seed).fork(stream);
+  const timeline: WeatherSegment[] = [];
+  let type: WeatherType = WeatherType.SUNNY;
+  let start = 0;
+
+  while (start < totalDuration) {
+    const config: WeatherConfig = WEATHER_CONFIGS[type];
+    let duration = rng.float(config.minDuration, config.maxDuration);
+    if (type === WeatherType.SUNNY) duration *= 1 - severity * MAX_SUN_SHRINK;
+    timeline.push({ type, start, duration });
+    start += duration;
+    type = rng.pick(escalate(config.possibleTransitions, severity));
+  }
+
+  return timeline;
+}
@@ -1,9 +1,14 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { GameProps } from '@advent/contract';
+import { Rng } from '@advent/rng';
+import { getPuzzleNumberForDay, resolveDayKey, resolveSeed } from '@advent/seed';
 
-export interface GameProps {
-  seed?: number;
-  onComplete?: (score: number) => void;
-}
+export type NomojiStats = {
+  guesses: number;
+  timeMs: number | null;
+};
+
+export const GAME_ID = 'nomoji';
 
 const EMOJI_POOL = [
   '😀',
@@ -145,17 +150,12 @@ interface AnimatedEmojiProps {
 
 function AnimatedEmoji({ emoji, index }: AnimatedEmojiProps) {
   const animations = useMemo(() => {
-    let seed = index * 9301 + 49297;
-    const random = (min: number, max: number) => {
-      seed = (seed * 9301 + 49297) % 233280;
-      const rnd = seed / 233280;
-      return min + rnd * (max - min);
-    };
+    const rng = new Rng(`emoji-${index}`);
 
-    const startX = random(5, 95);
-    const startY = random(15, 70);
-    const duration = random(20, 40);
-    const rotateAmount = random(-360, 360);
+    const startX = rng.float(5, 95);
+    const startY = rng.float(15, 70);
+    const duration = rng.float(20, 40);
+    const rotateAmount = rng.float(-360, 360);
 
     return { startX, startY, duration, rotateAmount };
   }, [index]);
@@ -198,26 +198,17 @@ function AnimatedEmoji({ emoji, index }: AnimatedEmojiProps) {
   );
 }
 
-function generateGameEmojis(seed?: number): {
+function generateGameEmojis(seed: number): {
   allThreeEmojis: string[];
   missingEmoji: string;
   displayEmojis: string[];
 } {
-  const seededRandom =
-    seed !== undefined
-      ? (() => {
-          let s = seed;
-          return () => {
-            s = (s * 9301 + 49297) % 233280;
-            return s / 233280;
-          };
-        })()
-      : Math.random;
-
-  const shuffled = [...EMOJI_POOL].sort(() => seededRandom() - 0.5);
+  const rng = new Rng(seed);
+
+  const shuffled = rng.shuffle(EMOJI_POOL);
   const allThreeEmojis = shuffled.slice(0, 3);
 
-  const missingIndex = Math.floor(seededRandom() * 3);
+  const missingIndex = rng.int(0, 2);
   const missingEmoji = allThreeEmojis[missingIndex];
 
   const presentEmojis = allThreeEmojis.filter((_, i) => i !== missingIndex);
@@ -227,24 +218,42 @@ function generateGameEmojis(seed?: number): {
   displayEmojis.push(presentEmojis[0], presentEmojis[1]);
 
   while (displayEmojis.length < 50) {
-    const randomEmoji = otherEmojis[Math.floor(seededRandom() * otherEmojis.length)];
-    displayEmojis.push(randomEmoji);
+    displayEmojis.push(rng.pick(otherEmojis));
   }
 
-  displayEmojis.sort(() => seededRandom() - 0.5);
+  return { allThreeEmojis, missingEmoji, displayEmojis: rng.shuffle(displayEmojis) };
+}
 
-  return { allThreeEmojis, missingEmoji, displayEmojis };
+function getShareText(guesses: number, timeMs: number | null, dayKey: string) {
+  const marks = timeMs !== null ? '🟥'.repeat(guesses - 1) + '🟩' : '🟥'.repeat(guesses);
+  return (
+    `Nomoji #${getPuzzleNumberForDay(dayKey)} ${marks}` +
+    (timeMs !== null ? `\n⏱️ ${(timeMs / 1000).toFixed(2)}s` : '')
+  );
 }
 
-export function Game({ seed, onComplete }: GameProps) {
-  const [startTime] = useState(Date.now());
+export function Game({ seed, dayKey, onStart, onProgress, onComplete }: GameProps<NomojiStats>) {
+  const [startTime, setStartTime] = useState(Date.now());
   const [guesses, setGuesses] = useState<string[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [timeMs, setTimeMs] = useState<number | null>(null);
   const [currentTime, setCurrentTime] = useState(Date.now());
 
-  const gameData = useMemo(() => generateGameEmojis(seed), [seed]);
+  const gameSeed = useMemo(() => resolveSeed(GAME_ID, seed), [seed]);
+  const gameDay = useMemo(() => resolveDayKey(dayKey), [dayKey]);
+  const gameData = useMemo(() => generateGameEmojis(gameSeed), [gameSeed]);
+
+  // Play Again reruns the same puzzle, so only the first finish is ranked and recorded
+  const isRepeat = useRef(false);
+
+  // The round starts on mount, so onStart only ever fires once
+  const hasStarted = useRef(false);
+  useEffect(() => {
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+    onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: startTime });
+  }, [onStart, gameSeed, startTime]);
 
   useEffect(() => {
     if (!showResults) {
@@ -255,6 +264,19 @@ export function Game({ seed, onComplete }: GameProps) {
     }
   }, [showResults]);
 
+  // Another round of the same puzzle, without reloading the page and the host around it
+  const playAgain = () => {
+    const now = Date.now();
+    isRepeat.current = true;
+    setStartTime(now);
+    setCurrentTime(now);
+    setGuesses([]);
+    setIsSuccess(false);
+    setTimeMs(null);
+    setShowResults(false);
+    onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: now });
+  };
+
   const handleGuess = (emoji: string) => {
     if (showResults) return;
 
@@ -272,8 +294,24 @@ export function Game({ seed, onComplete }: GameProps) {
       setShowResults(true);
 
       if (onComplete) {
-        onComplete(correct ? Math.floor(elapsed / 1000) : 0);
+        onComplete({
+          gameId: GAME_ID,
+          score: correct ? Math.floor(elapsed / 1000) : 0,
+          won: correct,
+          durationMs: elapsed,
+          attempts: newGuesses.length,
+          stats: { guesses: newGuesses.length, timeMs: finalTime },
+          shareText: getShareText(newGuesses.length, finalTime, gameDay),
+          ranked: !isRepeat.current,
+        });
       }
+    } else if (onProgress) {
+      onProgress({
+        gameId: GAME_ID,
+        score: 0,
+        elapsedMs: elapsed,
+        stats: { guesses: newGuesses.length, timeMs: null },
+      });
     }
   };
 
@@ -359,7 +397,7 @@ export function Game({ seed, onComplete }: GameProps) {
             </div>
 
             <button
-              onClick={() => window.location.reload()}
+              onClick={playAgain}
               className="bg-neon-blue hover:bg-neon-green transform rounded-lg border-4 border-white/30 px-8 py-4 text-xl font-bold text-black shadow-[0_0_20px_rgba(0,243,255,0.5)] transition-all hover:scale-105"
             >
               Play Again
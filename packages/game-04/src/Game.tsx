@@ -1,323 +1,103 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
-
-export interface GameProps {
-  seed?: number;
-  onComplete?: (score: number) => void;
-}
-
-// Constants
-const GRID_SIZE = {
-  rows: 15,
-  cols: 15,
-};
-
-enum LaneType {
-  SAFE = 'safe',
-  ROAD = 'road',
-  RIVER = 'river',
-  GOAL = 'goal',
-}
-
-enum ObjectType {
-  CAR = 'car',
-  TRUCK = 'truck',
-  TURTLE = 'turtle',
-  LOG = 'log',
-  LILYPAD = 'lilypad',
-}
-
-const SPEEDS = {
-  SLOW: 2,
-  MEDIUM: 4,
-  FAST: 6,
-};
-
-const OBJECT_SIZES: Record<ObjectType, number> = {
-  [ObjectType.CAR]: 1,
-  [ObjectType.TRUCK]: 2,
-  [ObjectType.TURTLE]: 1,
-  [ObjectType.LOG]: 2,
-  [ObjectType.LILYPAD]: 1,
-};
-
-interface Position {
-  x: number;
-  y: number;
-}
-
-interface Obstacle {
-  x: number;
-  type: ObjectType;
-  width: number;
-  sinking?: boolean;
-  sinkCycle?: number;
-}
-
-interface Lane {
-  type: LaneType;
-  obstacles: Obstacle[];
-  speed: number;
-  direction: number;
-  id: number;
-}
-
-type GameState = 'playing' | 'won' | 'lost';
-
-// RNG for seeded randomness
-class SeededRNG {
-  private seed: number;
-
-  constructor(seed: number) {
-    this.seed = seed;
-  }
-
-  next(): number {
-    this.seed = (this.seed * 9301 + 49297) % 233280;
-    return this.seed / 233280;
-  }
-
-  nextFloat(): number {
-    return this.next();
-  }
-
-  nextRange(min: number, max: number): number {
-    return Math.floor(this.next() * (max - min + 1)) + min;
-  }
-
-  choice<T>(arr: T[]): T {
-    return arr[Math.floor(this.next() * arr.length)];
-  }
-}
-
-// Utility functions
-const isColliding = (frog: Position, obstacles: Obstacle[], laneType: LaneType): boolean => {
-  const HITBOX_PADDING = 0.15;
-  const frogLeft = frog.x + HITBOX_PADDING;
-  const frogRight = frog.x + 1 - HITBOX_PADDING;
-
-  for (const obs of obstacles) {
-    const obsWidth = obs.width || 1;
-    const obsLeft = obs.x + HITBOX_PADDING;
-    const obsRight = obs.x + obsWidth - HITBOX_PADDING;
-
-    const overlap = frogLeft < obsRight && frogRight > obsLeft;
-
-    if (overlap) {
-      if (laneType === LaneType.ROAD) {
-        return true; // Hit by car
-      } else if (laneType === LaneType.RIVER) {
-        return false; // Safe on log/turtle
-      }
-    }
-  }
-
-  // If river and no collision with object, frog is in water (dead)
-  if (laneType === LaneType.RIVER) {
-    return true;
-  }
-
-  return false;
-};
-
-const moveFrog = (currentPos: Position, direction: string): Position => {
-  const newPos = { ...currentPos };
-
-  switch (direction) {
-    case 'up':
-      newPos.y = Math.max(0, newPos.y - 1);
-      break;
-    case 'down':
-      newPos.y = Math.min(GRID_SIZE.rows - 1, newPos.y + 1);
-      break;
-    case 'left':
-      newPos.x = Math.max(0, newPos.x - 1);
-      break;
-    case 'right':
-      newPos.x = Math.min(GRID_SIZE.cols - 1, newPos.x + 1);
-      break;
-  }
-
-  return newPos;
+import type { GameProps, GameReplay, GameResult } from '@advent/contract';
+import { getPuzzleNumber, resolveSeed } from '@advent/seed';
+import {
+  LaneType,
+  MAX_LIVES,
+  ObjectType,
+  TICKS_PER_SECOND,
+  createFroggle,
+  getElapsedSeconds,
+  getScore,
+  moveFrog,
+  stepFroggle,
+  type FroggleInput,
+  type FroggleState,
+  type Move,
+} from './rules';
+
+export type FroggleStats = {
+  lives: number;
+  timeSec: number;
 };
 
-const findPlatformUnder = (frog: Position, obstacles: Obstacle[]): Obstacle | null => {
-  const HITBOX_PADDING = 0.15;
-  const frogLeft = frog.x + HITBOX_PADDING;
-  const frogRight = frog.x + 1 - HITBOX_PADDING;
-
-  for (const obs of obstacles) {
-    const obsWidth = obs.width || 1;
-    const obsLeft = obs.x + HITBOX_PADDING;
-    const obsRight = obs.x + obsWidth - HITBOX_PADDING;
-
-    const overlap = frogLeft < obsRight && frogRight > obsLeft;
-
-    if (overlap) {
-      return obs;
-    }
-  }
-
-  return null;
-};
-
-const centerFrogOnPlatform = (frog: Position, platform: Obstacle | null): number => {
-  if (!platform) return frog.x;
-
-  const obsWidth = platform.width || 1;
-  const platformCenter = platform.x + obsWidth / 2;
-
-  return platformCenter - 0.5;
-};
-
-export function Game({ seed, onComplete }: GameProps) {
-  const [gameState, setGameState] = useState<GameState>('playing');
-  const [lives, setLives] = useState(3);
-  const [time, setTime] = useState(0);
-  const [frogPos, setFrogPos] = useState<Position>({
-    x: Math.floor(GRID_SIZE.cols / 2),
-    y: GRID_SIZE.rows - 1,
-  });
-  const [lanes, setLanes] = useState<Lane[]>([]);
+export const GAME_ID = 'froggle';
+
+const buildResult = (
+  won: boolean,
+  lives: number,
+  time: number,
+  replay: GameReplay<FroggleInput>
+): GameResult<FroggleStats> => ({
+  gameId: GAME_ID,
+  score: getScore(won, lives, time),
+  won,
+  durationMs: Math.round(time * 1000),
+  attempts: MAX_LIVES - lives + (won ? 1 : 0),
+  stats: { lives, timeSec: time },
+  shareText: won
+    ? `Froggle #${getPuzzleNumber()} 🐸 ${time.toFixed(2)}s\n${'❤️'.repeat(lives)}`
+    : `Froggle #${getPuzzleNumber()} 💀 ${time.toFixed(2)}s`,
+  replay,
+});
+
+// Don't try to catch up on more than this after the tab was in the background
+const MAX_FRAME_SECONDS = 0.25;
+
+export function Game({ seed, onStart, onProgress, onComplete }: GameProps<FroggleStats>) {
+  const [gameSeed] = useState(() => resolveSeed(GAME_ID, seed));
+  const [state, setState] = useState(() => createFroggle(gameSeed));
+  const stateRef = useRef<FroggleState>(state);
+  const inputsRef = useRef<FroggleInput[]>([]);
 
   const requestRef = useRef<number>();
   const previousTimeRef = useRef<number>();
-  const lanesRef = useRef<Lane[]>([]);
-  const frogPosRef = useRef<Position>(frogPos);
+  const accumulatorRef = useRef(0);
+  const hasStarted = useRef(false);
+  // Play Again reruns the same puzzle, so only the first finish is ranked and recorded
+  const isRepeat = useRef(false);
 
-  // Initialize Game
-  useEffect(() => {
-    const rng = new SeededRNG(seed || Date.now());
-    const newLanes: Lane[] = [];
-    let prevSpeed: number | null = null;
-    let prevDirection: number | null = null;
+  const { lanes, frog: frogPos, lives, status: gameState } = state;
+  const time = getElapsedSeconds(state);
 
-    for (let i = 0; i < GRID_SIZE.rows; i++) {
-      let type = LaneType.SAFE;
-      let obstacles: Obstacle[] = [];
-      let speed = 0;
-      let direction = 1;
-
-      if (i === 0) {
-        type = LaneType.GOAL;
-      } else if (i > 0 && i < 6) {
-        type = LaneType.RIVER;
-
-        const availableSpeeds = [SPEEDS.SLOW, SPEEDS.MEDIUM];
-        const availableDirections = [-1, 1];
-
-        if (prevSpeed !== null && rng.nextFloat() > 0.2) {
-          if (rng.nextFloat() > 0.5) {
-            direction = prevDirection === 1 ? -1 : 1;
-            speed = rng.choice(availableSpeeds);
-          } else {
-            const filteredSpeeds = availableSpeeds.filter((s) => s !== prevSpeed);
-            speed =
-              filteredSpeeds.length > 0 ? rng.choice(filteredSpeeds) : rng.choice(availableSpeeds);
-            direction = rng.choice(availableDirections);
-          }
-        } else {
-          speed = rng.choice(availableSpeeds);
-          direction = rng.choice(availableDirections);
-        }
-
-        const obsType = rng.choice([ObjectType.LOG, ObjectType.TURTLE, ObjectType.LILYPAD]);
-        const count = rng.nextRange(2, 4);
-
-        for (let j = 0; j < count; j++) {
-          let width = OBJECT_SIZES[obsType];
-
-          if (obsType === ObjectType.LOG) {
-            const lengthChoice = rng.nextFloat();
-            if (lengthChoice < 0.2) {
-              width = 1;
-            } else if (lengthChoice < 0.85) {
-              width = 2;
-            } else {
-              width = 3;
-            }
-          }
-
-          obstacles.push({
-            x: j * (GRID_SIZE.cols / count) + rng.nextRange(0, 2),
-            type: obsType,
-            width: width,
-            sinking: obsType === ObjectType.TURTLE ? false : undefined,
-            sinkCycle: obsType === ObjectType.TURTLE ? rng.nextRange(0, 100) : undefined,
-          });
-        }
-
-        prevSpeed = speed;
-        prevDirection = direction;
-      } else if (i > 6 && i < 14) {
-        type = LaneType.ROAD;
-
-        const availableSpeeds = [SPEEDS.SLOW, SPEEDS.MEDIUM, SPEEDS.FAST];
-        const availableDirections = [-1, 1];
-
-        if (prevSpeed !== null && rng.nextFloat() > 0.2) {
-          if (rng.nextFloat() > 0.5) {
-            direction = prevDirection === 1 ? -1 : 1;
-            speed = rng.choice(availableSpeeds);
-          } else {
-            const filteredSpeeds = availableSpeeds.filter((s) => s !== prevSpeed);
-            speed =
-              filteredSpeeds.length > 0 ? rng.choice(filteredSpeeds) : rng.choice(availableSpeeds);
-            direction = rng.choice(availableDirections);
-          }
-        } else {
-          speed = rng.choice(availableSpeeds);
-          direction = rng.choice(availableDirections);
-        }
-
-        const obsType = rng.choice([ObjectType.CAR, ObjectType.TRUCK]);
-        const count = rng.nextRange(2, 4);
-        for (let j = 0; j < count; j++) {
-          obstacles.push({
-            x: j * (GRID_SIZE.cols / count) + rng.nextRange(0, 2),
-            type: obsType,
-            width: OBJECT_SIZES[obsType],
-          });
-        }
-
-        prevSpeed = speed;
-        prevDirection = direction;
-      } else {
-        prevSpeed = null;
-        prevDirection = null;
-      }
-
-      newLanes.push({ type, obstacles, speed, direction, id: i });
-    }
-
-    setLanes(newLanes);
-    lanesRef.current = newLanes;
-  }, [seed]);
-
-  const handleMove = useCallback(
-    (direction: string) => {
-      if (gameState !== 'playing') return;
-
-      setFrogPos((prev) => {
-        const newPos = moveFrog(prev, direction);
-
-        if (direction === 'up' || direction === 'down') {
-          newPos.x = Math.round(newPos.x);
+  useEffect(() => {
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+    onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: Date.now() });
+  }, [onStart, gameSeed]);
 
-          const targetLane = lanesRef.current[newPos.y];
-          if (targetLane && targetLane.type === LaneType.RIVER) {
-            const platform = findPlatformUnder(newPos, targetLane.obstacles);
-            if (platform) {
-              newPos.x = centerFrogOnPlatform(newPos, platform);
-            }
-          }
-        }
+  useEffect(() => {
+    if (lives === MAX_LIVES || lives === 0 || !onProgress) return;
+    const elapsed = getElapsedSeconds(stateRef.current);
+    onProgress({
+      gameId: GAME_ID,
+      score: 0,
+      elapsedMs: Math.round(elapsed * 1000),
+      stats: { lives, timeSec: elapsed },
+    });
+  }, [lives, onProgress]);
 
-        frogPosRef.current = newPos;
-        return newPos;
-      });
-    },
-    [gameState]
-  );
+  useEffect(() => {
+    if (gameState === 'playing' || !onComplete) return;
+    const final = stateRef.current;
+    onComplete({
+      ...buildResult(final.status === 'won', final.lives, getElapsedSeconds(final), {
+        seed: gameSeed,
+        ticks: final.tick,
+        inputs: [...inputsRef.current],
+      }),
+      ranked: !isRepeat.current,
+    });
+  }, [gameState, gameSeed, onComplete]);
+
+  const handleMove = useCallback((move: Move) => {
+    const current = stateRef.current;
+    if (current.status !== 'playing') return;
+
+    inputsRef.current.push({ tick: current.tick, move });
+    stateRef.current = moveFrog(current, move);
+    setState(stateRef.current);
+  }, []);
 
   // Keyboard controls
   useEffect(() => {
@@ -345,111 +125,48 @@ export function Game({ seed, onComplete }: GameProps) {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [handleMove]);
 
-  useEffect(() => {
-    frogPosRef.current = frogPos;
-  }, [frogPos]);
-
-  // Game Loop
-  const animate = useCallback(
-    (time: number) => {
-      if (gameState !== 'playing') return;
+  // Game Loop: real frame time is fed through an accumulator into fixed ticks
+  const animate = useCallback((frameTime: number) => {
+    if (stateRef.current.status !== 'playing') return;
 
-      if (previousTimeRef.current !== undefined) {
-        const deltaTime = (time - previousTimeRef.current) / 1000;
+    if (previousTimeRef.current !== undefined) {
+      const deltaTime = Math.min((frameTime - previousTimeRef.current) / 1000, MAX_FRAME_SECONDS);
+      accumulatorRef.current += deltaTime;
 
-        setTime((prev) => prev + deltaTime);
-
-        const currentLanes = lanesRef.current.map((lane) => {
-          if (lane.speed === 0) return lane;
-
-          const moveAmount = lane.speed * deltaTime * lane.direction;
-          const newObstacles = lane.obstacles.map((obs) => {
-            let newX = obs.x + moveAmount;
-            if (lane.direction === 1 && newX > GRID_SIZE.cols) newX = -obs.width;
-            if (lane.direction === -1 && newX < -obs.width) newX = GRID_SIZE.cols;
-
-            let newObs = { ...obs, x: newX };
-            if (obs.type === ObjectType.TURTLE) {
-              const cycle = (time / 1000 + (obs.sinkCycle || 0)) % 5;
-              newObs.sinking = cycle > 3;
-            }
-
-            return newObs;
-          });
-          return { ...lane, obstacles: newObstacles };
-        });
-
-        lanesRef.current = currentLanes;
-        setLanes(currentLanes);
-
-        const currentFrogY = frogPosRef.current.y;
-        const currentLane = currentLanes[currentFrogY];
-
-        if (currentLane && currentLane.type === LaneType.RIVER) {
-          const dead = isColliding(frogPosRef.current, currentLane.obstacles, currentLane.type);
-
-          if (!dead) {
-            const drift = currentLane.speed * deltaTime * currentLane.direction;
-            const newX = frogPosRef.current.x + drift;
+      let next = stateRef.current;
+      while (accumulatorRef.current >= 1 / TICKS_PER_SECOND && next.status === 'playing') {
+        next = stepFroggle(next);
+        accumulatorRef.current -= 1 / TICKS_PER_SECOND;
+      }
 
-            frogPosRef.current = { ...frogPosRef.current, x: newX };
-            setFrogPos((prev) => ({ ...prev, x: newX }));
-          }
-        }
+      if (next !== stateRef.current) {
+        stateRef.current = next;
+        setState(next);
       }
-      previousTimeRef.current = time;
-      requestRef.current = requestAnimationFrame(animate);
-    },
-    [gameState]
-  );
+    }
+    previousTimeRef.current = frameTime;
+    requestRef.current = requestAnimationFrame(animate);
+  }, []);
 
   useEffect(() => {
     requestRef.current = requestAnimationFrame(animate);
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
     };
-  }, [animate, gameState]);
-
-  // Collision Check
-  useEffect(() => {
-    if (gameState !== 'playing') return;
-
-    const currentLane = lanesRef.current[frogPos.y];
-    if (!currentLane) return;
-
-    if (currentLane.type === LaneType.GOAL) {
-      setGameState('won');
-      if (onComplete) onComplete(lives * 100 + Math.floor(100 - time));
-      return;
-    }
-
-    const hit = isColliding(frogPos, currentLane.obstacles, currentLane.type);
-
-    if (hit) {
-      if (lives > 1) {
-        setLives((l) => l - 1);
-        setFrogPos({ x: Math.floor(GRID_SIZE.cols / 2), y: GRID_SIZE.rows - 1 });
-      } else {
-        setLives(0);
-        setGameState('lost');
-        if (onComplete) onComplete(0);
-      }
-    } else {
-      if (currentLane.type === LaneType.RIVER) {
-        const platform = findPlatformUnder(frogPos, currentLane.obstacles);
-        if (platform && platform.type === ObjectType.TURTLE && platform.sinking) {
-          if (lives > 1) {
-            setLives((l) => l - 1);
-            setFrogPos({ x: Math.floor(GRID_SIZE.cols / 2), y: GRID_SIZE.rows - 1 });
-          } else {
-            setLives(0);
-            setGameState('lost');
-            if (onComplete) onComplete(0);
-          }
-        }
-      }
-    }
-  }, [frogPos, lanes, lives, gameState, time, onComplete]);
+  }, [animate]);
+
+  // A fresh frog on the same puzzle, without reloading the page and the host around it
+  const playAgain = () => {
+    isRepeat.current = true;
+    stateRef.current = createFroggle(gameSeed);
+    inputsRef.current = [];
+    previousTimeRef.current = undefined;
+    accumulatorRef.current = 0;
+    setState(stateRef.current);
+    onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: Date.now() });
+    // The loop stopped itself when the last game ended
+    requestRef.current = requestAnimationFrame(animate);
+  };
 
   const getLaneBgColor = (type: LaneType) => {
     switch (type) {
@@ -559,11 +276,11 @@ export function Game({ seed, onComplete }: GameProps) {
               </h2>
 
               <p className="text-neon-green mb-6 text-2xl">
-                {gameState === 'won' ? `Time: ${time.toFixed(2)}s` : `Lives Lost: 3`}
+                {gameState === 'won' ? `Time: ${time.toFixed(2)}s` : `Lives Lost: ${MAX_LIVES}`}
               </p>
 
               <button
-                onClick={() => window.location.reload()}
+                onClick={playAgain}
                 className="bg-neon-blue hover:bg-neon-green transform rounded-lg border-4 border-white/30 px-8 py-4 text-xl font-bold text-black shadow-[0_0_20px_rgba(0,243,255,0.5)] transition-all hover:scale-105"
               >
                 Play Again
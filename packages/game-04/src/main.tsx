@@ -8,8 +8,8 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
     <div className="from-midnight to-midnight flex min-h-screen items-center justify-center bg-gradient-to-br via-gray-900 p-4">
       <Game
         seed={12345}
-        onComplete={(score) => {
-          console.log('Game completed with score:', score);
+        onComplete={(result) => {
+          console.log('Game completed:', result);
         }}
       />
     </div>
@@ -0,0 +1,396 @@
+import type { GameReplay, ReplayOutcome } from '@advent/contract';
+import { Rng } from '@advent/rng';
+
+// Constants
+export const GRID_SIZE = {
+  rows: 15,
+  cols: 15,
+};
+
+export const MAX_LIVES = 3;
+
+// The world advances in fixed steps so a replay lands on exactly the same frames
+export const TICKS_PER_SECOND = 60;
+const TICK_SECONDS = 1 / TICKS_PER_SECOND;
+
+export enum LaneType {
+  SAFE = 'safe',
+  ROAD = 'road',
+  RIVER = 'river',
+  GOAL = 'goal',
+}
+
+export enum ObjectType {
+  CAR = 'car',
+  TRUCK = 'truck',
+  TURTLE = 'turtle',
+  LOG = 'log',
+  LILYPAD = 'lilypad',
+}
+
+const SPEEDS = {
+  SLOW: 2,
+  MEDIUM: 4,
+  FAST: 6,
+};
+
+const OBJECT_SIZES: Record<ObjectType, number> = {
+  [ObjectType.CAR]: 1,
+  [ObjectType.TRUCK]: 2,
+  [ObjectType.TURTLE]: 1,
+  [ObjectType.LOG]: 2,
+  [ObjectType.LILYPAD]: 1,
+};
+
+const LOG_WIDTHS = [
+  { value: 1, weight: 0.2 },
+  { value: 2, weight: 0.65 },
+  { value: 3, weight: 0.15 },
+];
+
+const HITBOX_PADDING = 0.15;
+
+export interface Position {
+  x: number;
+  y: number;
+}
+
+export interface Obstacle {
+  x: number;
+  type: ObjectType;
+  width: number;
+  sinking?: boolean;
+  sinkCycle?: number;
+}
+
+export interface Lane {
+  type: LaneType;
+  obstacles: Obstacle[];
+  speed: number;
+  direction: number;
+  id: number;
+}
+
+export type Move = 'up' | 'down' | 'left' | 'right';
+
+export type GameStatus = 'playing' | 'won' | 'lost';
+
+export interface FroggleState {
+  lanes: Lane[];
+  frog: Position;
+  lives: number;
+  tick: number;
+  status: GameStatus;
+}
+
+// A move made after `tick` steps of the world
+export interface FroggleInput {
+  tick: number;
+  move: Move;
+}
+
+const START_POSITION: Position = {
+  x: Math.floor(GRID_SIZE.cols / 2),
+  y: GRID_SIZE.rows - 1,
+};
+
+// Utility functions
+const isColliding = (frog: Position, obstacles: Obstacle[], laneType: LaneType): boolean => {
+  const frogLeft = frog.x + HITBOX_PADDING;
+  const frogRight = frog.x + 1 - HITBOX_PADDING;
+
+  for (const obs of obstacles) {
+    const obsWidth = obs.width || 1;
+    const obsLeft = obs.x + HITBOX_PADDING;
+    const obsRight = obs.x + obsWidth - HITBOX_PADDING;
+
+    const overlap = frogLeft < obsRight && frogRight > obsLeft;
+
+    if (overlap) {
+      if (laneType === LaneType.ROAD) {
+        return true; // Hit by car
+      } else if (laneType === LaneType.RIVER) {
+        return false; // Safe on log/turtle
+      }
+    }
+  }
+
+  // If river and no collision with object, frog is in water (dead)
+  if (laneType === LaneType.RIVER) {
+    return true;
+  }
+
+  return false;
+};
+
+const findPlatformUnder = (frog: Position, obstacles: Obstacle[]): Obstacle | null => {
+  const frogLeft = frog.x + HITBOX_PADDING;
+  const frogRight = frog.x + 1 - HITBOX_PADDING;
+
+  for (const obs of obstacles) {
+    const obsWidth = obs.width || 1;
+    const obsLeft = obs.x + HITBOX_PADDING;
+    const obsRight = obs.x + obsWidth - HITBOX_PADDING;
+
+    const overlap = frogLeft < obsRight && frogRight > obsLeft;
+
+    if (overlap) {
+      return obs;
+    }
+  }
+
+  return null;
+};
+
+const centerFrogOnPlatform = (frog: Position, platform: Obstacle | null): number => {
+  if (!platform) return frog.x;
+
+  const obsWidth = platform.width || 1;
+  const platformCenter = platform.x + obsWidth / 2;
+
+  return platformCenter - 0.5;
+};
+
+const stepPosition = (currentPos: Position, move: Move): Position => {
+  const newPos = { ...currentPos };
+
+  switch (move) {
+    case 'up':
+      newPos.y = Math.max(0, newPos.y - 1);
+      break;
+    case 'down':
+      newPos.y = Math.min(GRID_SIZE.rows - 1, newPos.y + 1);
+      break;
+    case 'left':
+      newPos.x = Math.max(0, newPos.x - 1);
+      break;
+    case 'right':
+      newPos.x = Math.min(GRID_SIZE.cols - 1, newPos.x + 1);
+      break;
+  }
+
+  return newPos;
+};
+
+export function generateLanes(seed: number): Lane[] {
+  const rng = new Rng(seed);
+  const newLanes: Lane[] = [];
+  let prevSpeed: number | null = null;
+  let prevDirection: number | null = null;
+
+  for (let i = 0; i < GRID_SIZE.rows; i++) {
+    let type = LaneType.SAFE;
+    const obstacles: Obstacle[] = [];
+    let speed = 0;
+    let direction = 1;
+
+    if (i === 0) {
+      type = LaneType.GOAL;
+    } else if (i > 0 && i < 6) {
+      type = LaneType.RIVER;
+
+      const availableSpeeds = [SPEEDS.SLOW, SPEEDS.MEDIUM];
+      const availableDirections = [-1, 1];
+
+      if (prevSpeed !== null && rng.next() > 0.2) {
+        if (rng.next() > 0.5) {
+          direction = prevDirection === 1 ? -1 : 1;
+          speed = rng.pick(availableSpeeds);
+        } else {
+          const filteredSpeeds = availableSpeeds.filter((s) => s !== prevSpeed);
+          speed = filteredSpeeds.length > 0 ? rng.pick(filteredSpeeds) : rng.pick(availableSpeeds);
+          direction = rng.pick(availableDirections);
+        }
+      } else {
+        speed = rng.pick(availableSpeeds);
+        direction = rng.pick(availableDirections);
+      }
+
+      const obsType = rng.pick([ObjectType.LOG, ObjectType.TURTLE, ObjectType.LILYPAD]);
+      const count = rng.int(2, 4);
+
+      for (let j = 0; j < count; j++) {
+        let width = OBJECT_SIZES[obsType];
+
+        if (obsType === ObjectType.LOG) {
+          width = rng.weightedPick(LOG_WIDTHS);
+        }
+
+        obstacles.push({
+          x: j * (GRID_SIZE.cols / count) + rng.int(0, 2),
+          type: obsType,
+          width: width,
+          sinking: obsType === ObjectType.TURTLE ? false : undefined,
+          sinkCycle: obsType === ObjectType.TURTLE ? rng.int(0, 100) : undefined,
+        });
+      }
+
+      prevSpeed = speed;
+      prevDirection = direction;
+    } else if (i > 6 && i < 14) {
+      type = LaneType.ROAD;
+
+      const availableSpeeds = [SPEEDS.SLOW, SPEEDS.MEDIUM, SPEEDS.FAST];
+      const availableDirections = [-1, 1];
+
+      if (prevSpeed !== null && rng.next() > 0.2) {
+        if (rng.next() > 0.5) {
+          direction = prevDirection === 1 ? -1 : 1;
+          speed = rng.pick(availableSpeeds);
+        } else {
+          const filteredSpeeds = availableSpeeds.filter((s) => s !== prevSpeed);
+          speed = filteredSpeeds.length > 0 ? rng.pick(filteredSpeeds) : rng.pick(availableSpeeds);
+          direction = rng.pick(availableDirections);
+        }
+      } else {
+        speed = rng.pick(availableSpeeds);
+        direction = rng.pick(availableDirections);
+      }
+
+      const obsType = rng.pick([ObjectType.CAR, ObjectType.TRUCK]);
+      const count = rng.int(2, 4);
+      for (let j = 0; j < count; j++) {
+        obstacles.push({
+          x: j * (GRID_SIZE.cols / count) + rng.int(0, 2),
+          type: obsType,
+          width: OBJECT_SIZES[obsType],
+        });
+      }
+
+      prevSpeed = speed;
+      prevDirection = direction;
+    } else {
+      prevSpeed = null;
+      prevDirection = null;
+    }
+
+    newLanes.push({ type, obstacles, speed, direction, id: i });
+  }
+
+  return newLanes;
+}
+
+export function createFroggle(seed: number): FroggleState {
+  return {
+    lanes: generateLanes(seed),
+    frog: START_POSITION,
+    lives: MAX_LIVES,
+    tick: 0,
+    status: 'playing',
+  };
+}
+
+export const getElapsedSeconds = (state: FroggleState) => state.tick * TICK_SECONDS;
+
+export const getScore = (won: boolean, lives: number, time: number) =>
+  won ? lives * 100 + Math.floor(100 - time) : 0;
+
+const loseLife = (state: FroggleState): FroggleState =>
+  state.lives > 1
+    ? { ...state, lives: state.lives - 1, frog: START_POSITION }
+    : { ...state, lives: 0, status: 'lost' };
+
+// Goal, traffic, water and sinking turtles, checked after every move and every step
+function resolveFrog(state: FroggleState): FroggleState {
+  const currentLane = state.lanes[state.frog.y];
+  if (!currentLane) return state;
+
+  if (currentLane.type === LaneType.GOAL) return { ...state, status: 'won' };
+
+  if (isColliding(state.frog, currentLane.obstacles, currentLane.type)) return loseLife(state);
+
+  if (currentLane.type === LaneType.RIVER) {
+    const platform = findPlatformUnder(state.frog, currentLane.obstacles);
+    if (platform && platform.type === ObjectType.TURTLE && platform.sinking) {
+      return loseLife(state);
+    }
+  }
+
+  return state;
+}
+
+export function moveFrog(state: FroggleState, move: Move): FroggleState {
+  if (state.status !== 'playing') return state;
+
+  const newPos = stepPosition(state.frog, move);
+
+  if (move === 'up' || move === 'down') {
+    newPos.x = Math.round(newPos.x);
+
+    const targetLane = state.lanes[newPos.y];
+    if (targetLane && targetLane.type === LaneType.RIVER) {
+      const platform = findPlatformUnder(newPos, targetLane.obstacles);
+      if (platform) {
+        newPos.x = centerFrogOnPlatform(newPos, platform);
+      }
+    }
+  }
+
+  return resolveFrog({ ...state, frog: newPos });
+}
+
+// Advance the world by one fixed tick
+export function stepFroggle(state: FroggleState): FroggleState {
+  if (state.status !== 'playing') return state;
+
+  const tick = state.tick + 1;
+  const time = tick * TICK_SECONDS;
+
+  const lanes = state.lanes.map((lane) => {
+    if (lane.speed === 0) return lane;
+
+    const moveAmount = lane.speed * TICK_SECONDS * lane.direction;
+    const newObstacles = lane.obstacles.map((obs) => {
+      let newX = obs.x + moveAmount;
+      if (lane.direction === 1 && newX > GRID_SIZE.cols) newX = -obs.width;
+      if (lane.direction === -1 && newX < -obs.width) newX = GRID_SIZE.cols;
+
+      const newObs = { ...obs, x: newX };
+      if (obs.type === ObjectType.TURTLE) {
+        const cycle = (time + (obs.sinkCycle || 0)) % 5;
+        newObs.sinking = cycle > 3;
+      }
+
+      return newObs;
+    });
+    return { ...lane, obstacles: newObstacles };
+  });
+
+  let frog = state.frog;
+  const currentLane = lanes[frog.y];
+  if (currentLane && currentLane.type === LaneType.RIVER) {
+    const dead = isColliding(frog, currentLane.obstacles, currentLane.type);
+
+    if (!dead) {
+      const drift = currentLane.speed * TICK_SECONDS * currentLane.direction;
+      frog = { ...frog, x: frog.x + drift };
+    }
+  }
+
+  return resolveFrog({ ...state, lanes, frog, tick });
+}
+
+export function replayFroggle(replay: GameReplay<FroggleInput>): ReplayOutcome {
+  const { ticks, inputs } = replay;
+  if (ticks === undefined || !Number.isInteger(ticks) || ticks < 0) {
+    throw new Error('Froggle replays need a tick count');
+  }
+
+  let state = createFroggle(replay.seed);
+  let next = 0;
+  while (state.status === 'playing') {
+    while (next < inputs.length && inputs[next].tick === state.tick) {
+      state = moveFrog(state, inputs[next].move);
+      next++;
+    }
+    if (state.status !== 'playing' || state.tick >= ticks) break;
+    state = stepFroggle(state);
+  }
+
+  if (state.status === 'playing' || state.tick !== ticks || next !== inputs.length) {
+    throw new Error('Replay does not end where the game did');
+  }
+
+  const won = state.status === 'won';
+  return { score: getScore(won, state.lives, getElapsedSeconds(state)), won };
+}
@@ -1,81 +1,71 @@
-import { useState } from 'react';
-
-export interface GameProps {
-  seed?: number;
-  onComplete?: (score: number) => void;
-}
-
-// Color definitions
-interface Color {
-  name: string;
-  value: string;
-  id: string;
-}
+import { useEffect, useRef, useState } from 'react';
+import type { GameProps } from '@advent/contract';
+import { clearGameState, loadGameState, saveGameState } from '@advent/progress';
+import { getPuzzleNumber, resolveSeed } from '@advent/seed';
+import {
+  CODE_LENGTH,
+  COLORS,
+  MAX_GUESSES,
+  checkGuess,
+  findColor,
+  generateCode,
+  getScore,
+  isSolved,
+  type Color,
+  type Feedback,
+} from './rules';
+
+export type MastermindStats = {
+  guesses: number;
+};
 
-const COLORS: Color[] = [
-  { name: 'Red', value: '#ef4444', id: 'red' },
-  { name: 'Green', value: '#22c55e', id: 'green' },
-  { name: 'Blue', value: '#3b82f6', id: 'blue' },
-  { name: 'Yellow', value: '#eab308', id: 'yellow' },
-  { name: 'Purple', value: '#a855f7', id: 'purple' },
-  { name: 'Orange', value: '#f97316', id: 'orange' },
-];
+export const GAME_ID = 'mastermind';
 
 type GameStatus = 'playing' | 'won' | 'lost';
 
-interface Feedback {
-  exactMatches: number;
-  colorMatches: number;
+// A half-finished board, saved after every guess so a refresh doesn't lose it
+interface SavedBoard {
+  guesses: string[][];
+  startedAt: number;
 }
 
-// Seeded random number generator
-const mulberry32 = (a: number) => {
-  return function () {
-    let t = (a += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-};
-
-const generateCode = (seed: number): Color[] => {
-  const random = mulberry32(seed);
-  const code: Color[] = [];
-  for (let i = 0; i < 4; i++) {
-    const randomIndex = Math.floor(random() * COLORS.length);
-    code.push(COLORS[randomIndex]);
-  }
-  return code;
-};
-
-const checkGuess = (code: Color[], guess: Color[]): Feedback => {
-  let exactMatches = 0;
-  let colorMatches = 0;
-
-  const codeIds = code.map((c) => c.id);
-  const guessIds = guess.map((c) => c.id);
-
-  const codeFreq: Record<string, number> = {};
-  const guessFreq: Record<string, number> = {};
-
-  // First pass: count exact matches
-  for (let i = 0; i < 4; i++) {
-    if (codeIds[i] === guessIds[i]) {
-      exactMatches++;
-    } else {
-      codeFreq[codeIds[i]] = (codeFreq[codeIds[i]] || 0) + 1;
-      guessFreq[guessIds[i]] = (guessFreq[guessIds[i]] || 0) + 1;
-    }
-  }
-
-  // Second pass: count color matches
-  for (const color in guessFreq) {
-    if (codeFreq[color]) {
-      colorMatches += Math.min(guessFreq[color], codeFreq[color]);
+// A half-played board from storage, or null. One that's corrupt or from an older build is cleared
+// so the game starts a fresh board instead of crashing on load.
+function restoreBoard(seed: number): { guesses: Color[][]; startedAt: number } | null {
+  const saved = loadGameState<SavedBoard>(GAME_ID, seed);
+  if (!saved) return null;
+  try {
+    if (!Array.isArray(saved.guesses) || saved.guesses.length >= MAX_GUESSES) {
+      throw new Error('Saved guesses are not an unfinished board');
     }
+    if (typeof saved.startedAt !== 'number') throw new Error('Saved board has no start time');
+    const guesses = saved.guesses.map((guess) => {
+      if (!Array.isArray(guess) || guess.length !== CODE_LENGTH) {
+        throw new Error(`Saved guess must have ${CODE_LENGTH} colors`);
+      }
+      return guess.map(findColor);
+    });
+    return { guesses, startedAt: saved.startedAt };
+  } catch (err) {
+    console.error('Discarding saved board', err);
+    clearGameState(GAME_ID);
+    return null;
   }
+}
 
-  return { exactMatches, colorMatches };
+const getShareText = (solution: Color[], guesses: Color[][], won: boolean) => {
+  const rows = guesses.map((guess) => {
+    const { exactMatches, colorMatches } = checkGuess(solution, guess);
+    return (
+      '🔴'.repeat(exactMatches) +
+      '⚪'.repeat(colorMatches) +
+      '⚫'.repeat(CODE_LENGTH - exactMatches - colorMatches)
+    );
+  });
+  return [
+    `Mastermind #${getPuzzleNumber()} ${won ? guesses.length : 'X'}/${MAX_GUESSES}`,
+    ...rows,
+  ].join('\n');
 };
 
 // Peg component
@@ -129,14 +119,14 @@ function Row({
 
   if (isCurrent && currentGuess) {
     pegsToRender = [...currentGuess];
-    while (pegsToRender.length < 4) {
+    while (pegsToRender.length < CODE_LENGTH) {
       pegsToRender.push(null);
     }
   } else if (guess && solution) {
     pegsToRender = guess;
     feedback = checkGuess(solution, guess);
   } else {
-    pegsToRender = [null, null, null, null];
+    pegsToRender = Array(CODE_LENGTH).fill(null);
   }
 
   return (
@@ -176,15 +166,39 @@ function Row({
   );
 }
 
-export function Game({ seed, onComplete }: GameProps) {
-  const [guesses, setGuesses] = useState<Color[][]>([]);
+export function Game({ seed, onStart, onProgress, onComplete }: GameProps<MastermindStats>) {
+  const [gameSeed] = useState(() => resolveSeed(GAME_ID, seed));
+  const [saved] = useState(() => restoreBoard(gameSeed));
+  const [guesses, setGuesses] = useState<Color[][]>(() => saved?.guesses ?? []);
   const [currentGuess, setCurrentGuess] = useState<Color[]>([]);
   const [gameStatus, setGameStatus] = useState<GameStatus>('playing');
-  const [solution] = useState<Color[]>(() => generateCode(seed || Date.now()));
+  const [solution] = useState<Color[]>(() => generateCode(gameSeed));
   const [showWinModal, setShowWinModal] = useState(false);
+  const [startTime, setStartTime] = useState(() => saved?.startedAt ?? Date.now());
+  const hasStarted = useRef(false);
+  // Play Again reruns the same puzzle, so only the first finish is ranked and recorded
+  const isRepeat = useRef(false);
+
+  useEffect(() => {
+    if (hasStarted.current) return;
+    hasStarted.current = true;
+    onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: startTime });
+  }, [onStart, gameSeed, startTime]);
+
+  // A fresh board for the same code, without reloading the page and the host around it
+  const playAgain = () => {
+    const now = Date.now();
+    isRepeat.current = true;
+    setStartTime(now);
+    setGuesses([]);
+    setCurrentGuess([]);
+    setGameStatus('playing');
+    setShowWinModal(false);
+    onStart?.({ gameId: GAME_ID, seed: gameSeed, startedAt: now });
+  };
 
   const addPeg = (color: Color) => {
-    if (gameStatus !== 'playing' || currentGuess.length >= 4) return;
+    if (gameStatus !== 'playing' || currentGuess.length >= CODE_LENGTH) return;
     setCurrentGuess([...currentGuess, color]);
   };
 
@@ -194,33 +208,69 @@ export function Game({ seed, onComplete }: GameProps) {
   };
 
   const submitGuess = () => {
-    if (currentGuess.length !== 4 || gameStatus !== 'playing') return;
+    if (currentGuess.length !== CODE_LENGTH || gameStatus !== 'playing') return;
 
     const newGuesses = [...guesses, currentGuess];
     setGuesses(newGuesses);
 
-    const { exactMatches } = checkGuess(solution, currentGuess);
+    const solved = isSolved(solution, currentGuess);
+    const durationMs = Date.now() - startTime;
+    const isFinished = solved || newGuesses.length >= MAX_GUESSES;
+    // The guesses alone let the leaderboard re-derive the score from the seed
+    const replay = { seed: gameSeed, inputs: newGuesses.map((guess) => guess.map((c) => c.id)) };
+
+    if (isFinished) {
+      clearGameState(GAME_ID);
+    } else if (!isRepeat.current) {
+      const board: SavedBoard = { guesses: replay.inputs, startedAt: startTime };
+      saveGameState(GAME_ID, gameSeed, board);
+    }
 
-    if (exactMatches === 4) {
+    if (solved) {
       setGameStatus('won');
       setShowWinModal(true);
       if (onComplete) {
-        // Score based on number of guesses: fewer is better
-        const score = Math.max(0, 1000 - newGuesses.length * 100);
-        onComplete(score);
+        onComplete({
+          gameId: GAME_ID,
+          score: getScore(newGuesses.length, true),
+          won: true,
+          durationMs,
+          attempts: newGuesses.length,
+          stats: { guesses: newGuesses.length },
+          shareText: getShareText(solution, newGuesses, true),
+          replay,
+          ranked: !isRepeat.current,
+        });
       }
-    } else if (newGuesses.length >= 10) {
+    } else if (newGuesses.length >= MAX_GUESSES) {
       setGameStatus('lost');
       setShowWinModal(true);
       if (onComplete) {
-        onComplete(0);
+        onComplete({
+          gameId: GAME_ID,
+          score: getScore(newGuesses.length, false),
+          won: false,
+          durationMs,
+          attempts: newGuesses.length,
+          stats: { guesses: newGuesses.length },
+          shareText: getShareText(solution, newGuesses, false),
+          replay,
+          ranked: !isRepeat.current,
+        });
       }
+    } else if (onProgress) {
+      onProgress({
+        gameId: GAME_ID,
+        score: 0,
+        elapsedMs: durationMs,
+        stats: { guesses: newGuesses.length },
+      });
     }
 
     setCurrentGuess([]);
   };
 
-  const isFull = currentGuess.length === 4;
+  const isFull = currentGuess.length === CODE_LENGTH;
   const canSubmit = isFull && gameStatus === 'playing';
 
   return (
@@ -237,11 +287,13 @@ export function Game({ seed, onComplete }: GameProps) {
           {gameStatus === 'playing' && <Row isCurrent={true} currentGuess={currentGuess} />}
 
           {/* Render empty rows */}
-          {[...Array(Math.max(0, 10 - guesses.length - (gameStatus === 'playing' ? 1 : 0)))].map(
-            (_, idx) => (
-              <Row key={`empty-${idx}`} />
-            )
-          )}
+          {[
+            ...Array(
+              Math.max(0, MAX_GUESSES - guesses.length - (gameStatus === 'playing' ? 1 : 0))
+            ),
+          ].map((_, idx) => (
+            <Row key={`empty-${idx}`} />
+          ))}
         </div>
       </div>
 
@@ -312,7 +364,7 @@ export function Game({ seed, onComplete }: GameProps) {
             </div>
 
             <button
-              onClick={() => window.location.reload()}
+              onClick={playAgain}
               className="bg-neon-blue hover:bg-neon-green transform rounded-lg border-4 border-white/30 px-8 py-4 text-xl font-bold text-black shadow-[0_0_20px_rgba(0,243,255,0.5)] transition-all hover:scale-105"
             >
               Play Again
@@ -0,0 +1,99 @@
+import type { GameReplay, ReplayOutcome } from '@advent/contract';
+import { Rng } from '@advent/rng';
+
+export const MAX_GUESSES = 10;
+export const CODE_LENGTH = 4;
+
+// Color definitions
+export interface Color {
+  name: string;
+  value: string;
+  id: string;
+}
+
+export const COLORS: Color[] = [
+  { name: 'Red', value: '#ef4444', id: 'red' },
+  { name: 'Green', value: '#22c55e', id: 'green' },
+  { name: 'Blue', value: '#3b82f6', id: 'blue' },
+  { name: 'Yellow', value: '#eab308', id: 'yellow' },
+  { name: 'Purple', value: '#a855f7', id: 'purple' },
+  { name: 'Orange', value: '#f97316', id: 'orange' },
+];
+
+export interface Feedback {
+  exactMatches: number;
+  colorMatches: number;
+}
+
+// A replayed guess is the list of color ids, in peg order
+export type MastermindInput = string[];
+
+export const generateCode = (seed: number): Color[] => {
+  const rng = new Rng(seed);
+  return Array.from({ length: CODE_LENGTH }, () => rng.pick(COLORS));
+};
+
+export const findColor = (id: string): Color => {
+  const color = COLORS.find((c) => c.id === id);
+  if (!color) throw new Error(`Unknown color ${id}`);
+  return color;
+};
+
+export const checkGuess = (code: Color[], guess: Color[]): Feedback => {
+  let exactMatches = 0;
+  let colorMatches = 0;
+
+  const codeIds = code.map((c) => c.id);
+  const guessIds = guess.map((c) => c.id);
+
+  const codeFreq: Record<string, number> = {};
+  const guessFreq: Record<string, number> = {};
+
+  // First pass: count exact matches
+  for (let i = 0; i < CODE_LENGTH; i++) {
+    if (codeIds[i] === guessIds[i]) {
+      exactMatches++;
+    } else {
+      codeFreq[codeIds[i]] = (codeFreq[codeIds[i]] || 0) + 1;
+      guessFreq[guessIds[i]] = (guessFreq[guessIds[i]] || 0) + 1;
+    }
+  }
+
+  // Second pass: count color matches
+  for (const color in guessFreq) {
+    if (codeFreq[color]) {
+      colorMatches += Math.min(guessFreq[color], codeFreq[color]);
+    }
+  }
+
+  return { exactMatches, colorMatches };
+};
+
+export const isSolved = (code: Color[], guess: Color[]) =>
+  checkGuess(code, guess).exactMatches === CODE_LENGTH;
+
+// Score based on number of guesses: fewer is better
+export const getScore = (guessCount: number, won: boolean) =>
+  won ? Math.max(0, 1000 - guessCount * 100) : 0;
+
+export function replayMastermind(replay: GameReplay<MastermindInput>): ReplayOutcome {
+  const code = generateCode(replay.seed);
+  const { inputs } = replay;
+  if (inputs.length === 0 || inputs.length > MAX_GUESSES) {
+    throw new Error(`Expected 1-${MAX_GUESSES} guesses, got ${inputs.length}`);
+  }
+
+  for (let i = 0; i < inputs.length; i++) {
+    const guess = inputs[i];
+    if (!Array.isArray(guess) || guess.length !== CODE_LENGTH) {
+      throw new Error(`Guess ${i + 1} must have ${CODE_LENGTH} colors`);
+    }
+    if (isSolved(code, guess.map(findColor))) {
+      if (i !== inputs.length - 1) throw new Error('Guesses continue after the code was solved');
+      return { score: getScore(i + 1, true), won: true };
+    }
+  }
+
+  if (inputs.length < MAX_GUESSES) throw new Error('Replay ends before the game is over');
+  return { score: 0, won: false };
+}
@@ -0,0 +1,13 @@
+-- One row per player per daily board; resubmitting only ever improves the row
+CREATE TABLE IF NOT EXISTS scores (
+  game_id TEXT NOT NULL,
+  day_key TEXT NOT NULL,
+  player_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  score INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  submitted_at INTEGER NOT NULL,
+  PRIMARY KEY (game_id, day_key, player_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scores_board ON scores (game_id, day_key, score);
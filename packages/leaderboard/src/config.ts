@@ -0,0 +1,13 @@
+import type { BoardConfig } from './types';
+
+export const BOARDS: Record<string, BoardConfig> = {
+  snakle: { lowerIsBetter: false, winsOnly: false },
+  'hay-girl': { lowerIsBetter: false, winsOnly: false },
+  nomoji: { lowerIsBetter: true, winsOnly: true },
+  froggle: { lowerIsBetter: false, winsOnly: true },
+  mastermind: { lowerIsBetter: false, winsOnly: true },
+};
+
+export const DEFAULT_LIMIT = 10;
+export const MAX_LIMIT = 50;
+export const MAX_NAME_LENGTH = 20;
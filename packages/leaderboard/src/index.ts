@@ -0,0 +1,88 @@
+import type { GameResult } from '@advent/contract';
+import { getDayKey } from '@advent/seed';
+import { BOARDS } from './config';
+import type { Leaderboard } from './types';
+
+export type {
+  BoardConfig,
+  Leaderboard,
+  LeaderboardEntry,
+  PlayerStanding,
+  ScoreSubmission,
+} from './types';
+export { BOARDS } from './config';
+
+export const LEADERBOARD_API = '/api/leaderboard';
+export const PLAYER_KEY = 'advent-of-games:player';
+
+export interface Player {
+  id: string;
+  name: string;
+}
+
+// Anonymous identity, created on first use and kept on this device
+export function getPlayer(): Player {
+  try {
+    const raw = window.localStorage.getItem(PLAYER_KEY);
+    if (raw) return JSON.parse(raw) as Player;
+  } catch (err) {
+    console.error('Failed to read player', err);
+  }
+  const id = crypto.randomUUID();
+  const player = { id, name: `Elf ${id.slice(0, 4).toUpperCase()}` };
+  window.localStorage.setItem(PLAYER_KEY, JSON.stringify(player));
+  return player;
+}
+
+export function setPlayerName(name: string): Player {
+  const player = { ...getPlayer(), name: name.trim() || getPlayer().name };
+  window.localStorage.setItem(PLAYER_KEY, JSON.stringify(player));
+  return player;
+}
+
+export function isRanked(result: GameResult): boolean {
+  const config = BOARDS[result.gameId];
+  return !!config && result.ranked !== false && (result.won || !config.winsOnly);
+}
+
+// The API only exists under `wrangler pages dev` or on Pages, so every call degrades to null
+async function request(url: string, init?: RequestInit): Promise<Leaderboard | null> {
+  try {
+    const response = await fetch(url, init);
+    if (!response.ok) {
+      console.error('Leaderboard request failed', response.status, await response.text());
+      return null;
+    }
+    return (await response.json()) as Leaderboard;
+  } catch (err) {
+    console.error('Leaderboard unavailable', err);
+    return null;
+  }
+}
+
+export function fetchLeaderboard(gameId: string, dayKey: string): Promise<Leaderboard | null> {
+  const params = new URLSearchParams({ day: dayKey, player: getPlayer().id });
+  return request(`${LEADERBOARD_API}/${encodeURIComponent(gameId)}?${params}`);
+}
+
+// dayKey is the day the puzzle was seeded for, which may be yesterday by the time it finishes
+export function submitScore(
+  result: GameResult,
+  dayKey: string = getDayKey(new Date())
+): Promise<Leaderboard | null> {
+  if (!isRanked(result)) return fetchLeaderboard(result.gameId, dayKey);
+  const player = getPlayer();
+  return request(`${LEADERBOARD_API}/${encodeURIComponent(result.gameId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      playerId: player.id,
+      name: player.name,
+      dayKey,
+      score: result.score,
+      won: result.won,
+      durationMs: result.durationMs,
+      replay: result.replay,
+    }),
+  });
+}
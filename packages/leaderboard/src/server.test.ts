@@ -0,0 +1,300 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Miniflare } from 'miniflare';
+import { MAX_REPLAY_INPUTS, MAX_REPLAY_TICKS, type GameReplay } from '@advent/contract';
+import { getDayKey, getSeedForDay } from '@advent/seed';
+import { SnakeEngine, getScore as getSnakleScore } from '@games/game-01/engine';
+import { getDifficultyForDay } from '@games/game-01/levels';
+import {
+  MAX_LIVES,
+  TICKS_PER_SECOND,
+  createFroggle,
+  getElapsedSeconds,
+  getScore as getFroggleScore,
+  moveFrog,
+  stepFroggle,
+  type FroggleInput,
+  type FroggleState,
+  type Move,
+} from '@games/game-04/rules';
+import { COLORS, generateCode, getScore as getMastermindScore } from '@games/game-05/rules';
+import { MAX_LIMIT } from './config';
+import { onRequestGet, onRequestPost, type Env } from './server';
+import type { Leaderboard } from './types';
+
+type Context = Parameters<typeof onRequestPost>[0];
+
+// Hay Girl has no verifier, so scores go straight through without a replay
+const GAME_ID = 'hay-girl';
+const ORIGIN = 'http://localhost/api/leaderboard';
+
+// A real local D1 from miniflare, with the schema from the migrations
+let mf: Miniflare;
+let env: Env;
+
+beforeAll(async () => {
+  mf = new Miniflare({ modules: true, script: 'export default {}', d1Databases: ['DB'] });
+  const db = await mf.getD1Database('DB');
+  const migration = readFileSync(
+    new URL('../migrations/0001_create_scores.sql', import.meta.url),
+    'utf8'
+  );
+  for (const statement of migration.replace(/--.*$/gm, '').split(';')) {
+    if (statement.trim()) await db.prepare(statement).run();
+  }
+  env = { DB: db as unknown as Env['DB'] };
+}, 60_000);
+
+afterAll(() => mf?.dispose());
+
+beforeEach(async () => {
+  await env.DB.prepare('DELETE FROM scores').run();
+});
+
+// Only the parts of the Pages context the handlers read
+const context = (request: Request, gameId = GAME_ID) =>
+  ({ request, env, params: { gameId } }) as unknown as Context;
+
+const post = (gameId: string, body: unknown) =>
+  onRequestPost(
+    context(
+      new Request(`${ORIGIN}/${gameId}`, { method: 'POST', body: JSON.stringify(body) }),
+      gameId
+    )
+  );
+
+async function submit(playerId: string, name: string, score: number): Promise<Leaderboard> {
+  const response = await post(GAME_ID, {
+    playerId,
+    name,
+    dayKey: getDayKey(new Date()),
+    score,
+    won: true,
+    durationMs: 1000,
+  });
+  expect(response.status).toBe(201);
+  return response.json();
+}
+
+async function fetchBoard(query: string): Promise<Leaderboard> {
+  const response = await onRequestGet(context(new Request(`${ORIGIN}/${GAME_ID}?${query}`)));
+  expect(response.status).toBe(200);
+  return response.json();
+}
+
+describe('onRequestPost', () => {
+  it('renames a player who resubmits the same score', async () => {
+    await submit('player-0001', 'Elf A1B2', 120);
+    const board = await submit('player-0001', 'Holly', 120);
+
+    expect(board.entries).toEqual([{ name: 'Holly', score: 120, durationMs: 1000, rank: 1 }]);
+  });
+
+  it('keeps the better score when a worse one comes in, but takes the new name', async () => {
+    await submit('player-0001', 'Elf A1B2', 120);
+    const board = await submit('player-0001', 'Holly', 80);
+
+    expect(board.entries).toEqual([{ name: 'Holly', score: 120, durationMs: 1000, rank: 1 }]);
+  });
+
+  it('replaces the score when it improves', async () => {
+    await submit('player-0001', 'Holly', 80);
+    const board = await submit('player-0001', 'Holly', 120);
+
+    expect(board.entries.map((entry) => entry.score)).toEqual([120]);
+  });
+});
+
+describe('onRequestGet', () => {
+  beforeEach(async () => {
+    for (let i = 0; i < MAX_LIMIT + 2; i++) {
+      await submit(`player-${String(i).padStart(4, '0')}`, `Elf ${i}`, i);
+    }
+  });
+
+  it('clamps the limit to at least one entry', async () => {
+    expect((await fetchBoard('limit=-1')).entries).toHaveLength(1);
+    expect((await fetchBoard('limit=0.5')).entries).toHaveLength(1);
+  });
+
+  it('clamps the limit to MAX_LIMIT', async () => {
+    expect((await fetchBoard('limit=1000')).entries).toHaveLength(MAX_LIMIT);
+  });
+
+  it('truncates a fractional limit', async () => {
+    expect((await fetchBoard('limit=2.9')).entries).toHaveLength(2);
+  });
+});
+
+interface Run {
+  score: number;
+  won: boolean;
+  replay: GameReplay;
+}
+
+// Snakle left to run straight into walls until the daily lives run out
+function playSnakle(dayKey: string): Run {
+  let state = SnakeEngine.create(
+    getSeedForDay('snakle', dayKey),
+    getDifficultyForDay(dayKey),
+    'daily'
+  );
+  while (!state.finished) {
+    state = SnakeEngine.tick(state);
+    if (!state.alive && !state.finished) state = SnakeEngine.respawn(state);
+  }
+  return {
+    score: getSnakleScore(state),
+    won: false,
+    replay: { seed: state.seed, ticks: state.tick, inputs: [] },
+  };
+}
+
+// Froggle only ranks wins, so search tick by tick for a way across that never loses a life
+function playFroggle(dayKey: string): Run {
+  const seed = getSeedForDay('froggle', dayKey);
+  type Node = { state: FroggleState; inputs: FroggleInput[] };
+  let layer: Node[] = [{ state: createFroggle(seed), inputs: [] }];
+
+  while (layer.length > 0 && layer[0].state.tick < 60 * TICKS_PER_SECOND) {
+    const seen = new Map<string, Node>();
+    for (const { state, inputs } of layer) {
+      for (const move of [null, 'up', 'left', 'right', 'down'] as (Move | null)[]) {
+        const moved = move ? moveFrog(state, move) : state;
+        const path = move ? [...inputs, { tick: state.tick, move }] : inputs;
+        if (moved.status === 'won') {
+          const time = getElapsedSeconds(moved);
+          return {
+            score: getFroggleScore(true, moved.lives, time),
+            won: true,
+            replay: { seed, ticks: moved.tick, inputs: path },
+          };
+        }
+        if (moved.lives < MAX_LIVES) continue;
+        const next = stepFroggle(moved);
+        if (next.lives < MAX_LIVES) continue;
+        const key = `${next.frog.x.toFixed(3)},${next.frog.y}`;
+        if (!seen.has(key)) seen.set(key, { state: next, inputs: path });
+      }
+    }
+    layer = [...seen.values()];
+  }
+  throw new Error(`No way across Froggle for ${dayKey}`);
+}
+
+// Mastermind cracked on the second guess, after one wrong peg
+function playMastermind(dayKey: string): Run {
+  const seed = getSeedForDay('mastermind', dayKey);
+  const code = generateCode(seed).map((color) => color.id);
+  const wrong = [COLORS.find((color) => color.id !== code[0])!.id, ...code.slice(1)];
+  return { score: getMastermindScore(2, true), won: true, replay: { seed, inputs: [wrong, code] } };
+}
+
+describe('onRequestPost replay verification', () => {
+  // A fixed day keeps each game's puzzle, and the runs found for it, the same on every test run
+  const NOW = new Date('2025-12-04T12:00:00Z');
+  const TODAY = getDayKey(NOW);
+  const YESTERDAY = '2025-12-03';
+
+  beforeAll(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+  });
+
+  afterAll(() => vi.useRealTimers());
+
+  const cases: {
+    gameId: string;
+    play: (dayKey: string) => Run;
+    afterEnd: (run: Run) => unknown[];
+  }[] = [
+    {
+      gameId: 'snakle',
+      play: playSnakle,
+      afterEnd: ({ replay }) => [{ tick: replay.ticks, direction: 'UP' }],
+    },
+    {
+      gameId: 'froggle',
+      play: playFroggle,
+      afterEnd: ({ replay }) => [...replay.inputs, { tick: replay.ticks! + 1, move: 'up' }],
+    },
+    {
+      gameId: 'mastermind',
+      play: playMastermind,
+      afterEnd: ({ replay }) => [...replay.inputs, replay.inputs[replay.inputs.length - 1]],
+    },
+  ];
+
+  describe.each(cases)('$gameId', ({ gameId, play, afterEnd }) => {
+    // Played while the tests are collected: the Froggle search holds the thread for a few
+    // seconds, long enough for miniflare to drop its connection if it were already running
+    const run = play(TODAY);
+
+    const send = (changes: Record<string, unknown>) =>
+      post(gameId, {
+        playerId: 'player-0001',
+        name: 'Holly',
+        dayKey: TODAY,
+        score: run.score,
+        won: run.won,
+        durationMs: 1000,
+        replay: run.replay,
+        ...changes,
+      });
+
+    const expectRejected = async (response: Response, error: string | RegExp) => {
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toMatch(error);
+    };
+
+    it('ranks a genuine replay', async () => {
+      const response = await send({});
+      expect(response.status).toBe(201);
+      expect((await response.json()).entries).toEqual([
+        { name: 'Holly', score: run.score, durationMs: 1000, rank: 1 },
+      ]);
+    });
+
+    it('rejects a score the replay does not reach', async () => {
+      await expectRejected(
+        await send({ score: run.score + 100 }),
+        'Score does not match the replay'
+      );
+    });
+
+    it("rejects a replay of another day's puzzle", async () => {
+      const other = { ...run.replay, seed: getSeedForDay(gameId, YESTERDAY) };
+      await expectRejected(await send({ replay: other }), "Replay is not for this day's puzzle");
+      await expectRejected(
+        await send({ dayKey: YESTERDAY }),
+        "Replay is not for this day's puzzle"
+      );
+      await expectRejected(
+        await send({ replay: { ...run.replay, seed: run.replay.seed + 1 } }),
+        "Replay is not for this day's puzzle"
+      );
+    });
+
+    it('rejects a replay longer than any game may run', async () => {
+      const padding = afterEnd(run);
+      const inputs = Array.from(
+        { length: MAX_REPLAY_INPUTS + 1 },
+        () => padding[padding.length - 1]
+      );
+      await expectRejected(await send({ replay: { ...run.replay, inputs } }), 'Replay is too long');
+      if (run.replay.ticks !== undefined) {
+        await expectRejected(
+          await send({ replay: { ...run.replay, ticks: MAX_REPLAY_TICKS + 1 } }),
+          'Replay is too long'
+        );
+      }
+    });
+
+    it('rejects inputs after the game ended', async () => {
+      await expectRejected(
+        await send({ replay: { ...run.replay, inputs: afterEnd(run) } }),
+        /^Replay rejected: /
+      );
+    });
+  });
+});
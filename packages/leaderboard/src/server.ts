@@ -0,0 +1,226 @@
+import type { D1Database, EventContext } from '@cloudflare/workers-types';
+import { MAX_REPLAY_INPUTS, MAX_REPLAY_TICKS, type GameReplay } from '@advent/contract';
+import { getDayKey, getSeedForDay } from '@advent/seed';
+import { BOARDS, DEFAULT_LIMIT, MAX_LIMIT, MAX_NAME_LENGTH } from './config';
+import type { BoardConfig, Leaderboard, LeaderboardEntry, ScoreSubmission } from './types';
+import { VERIFIERS } from './verify';
+
+export interface Env {
+  DB: D1Database;
+}
+
+// Typed by hand rather than as PagesFunction, whose Response type clashes with the DOM one
+type Context = EventContext<Env, 'gameId', Record<string, unknown>>;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const DAY_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PLAYER_ID_PATTERN = /^[\w-]{8,64}$/;
+
+const json = (body: unknown, status = 200) => Response.json(body, { status });
+const badRequest = (error: string) => json({ error }, 400);
+
+// Which way "better" points in SQL. Only ever built from BOARDS, never from the request.
+const direction = (config: BoardConfig) =>
+  config.lowerIsBetter ? { better: '<', order: 'ASC' } : { better: '>', order: 'DESC' };
+
+// A whole number in [1, MAX_LIMIT]; SQLite reads a negative LIMIT as no limit at all
+function parseLimit(raw: string | null) {
+  const limit = Math.trunc(Number(raw ?? DEFAULT_LIMIT));
+  return Number.isNaN(limit) ? DEFAULT_LIMIT : Math.min(Math.max(limit, 1), MAX_LIMIT);
+}
+
+// A puzzle started just before midnight can still be submitted the next morning
+function isOpenDay(dayKey: string, now: Date) {
+  return dayKey === getDayKey(now) || dayKey === getDayKey(new Date(now.getTime() - MS_PER_DAY));
+}
+
+function parseSubmission(raw: unknown, config: BoardConfig, now: Date): ScoreSubmission {
+  if (typeof raw !== 'object' || raw === null) throw new Error('Expected a JSON body');
+  const body = raw as Partial<Record<keyof ScoreSubmission, unknown>>;
+
+  if (typeof body.playerId !== 'string' || !PLAYER_ID_PATTERN.test(body.playerId)) {
+    throw new Error('Invalid playerId');
+  }
+  if (typeof body.dayKey !== 'string' || !isOpenDay(body.dayKey, now)) {
+    throw new Error('This day is closed for submissions');
+  }
+  if (typeof body.score !== 'number' || !Number.isInteger(body.score) || body.score < 0) {
+    throw new Error('Invalid score');
+  }
+  if (typeof body.durationMs !== 'number' || !(body.durationMs >= 0)) {
+    throw new Error('Invalid durationMs');
+  }
+  if (config.winsOnly && body.won !== true) throw new Error('Only wins are ranked for this game');
+
+  const name = typeof body.name === 'string' ? body.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+  if (!name) throw new Error('Invalid name');
+
+  return {
+    playerId: body.playerId,
+    name,
+    dayKey: body.dayKey,
+    score: body.score,
+    won: body.won === true,
+    durationMs: Math.round(body.durationMs),
+    replay: body.replay as GameReplay | undefined,
+  };
+}
+
+// Re-runs the game from the replay and only lets the score through if the rules agree with it
+function verifySubmission(gameId: string, submission: ScoreSubmission) {
+  const verify = VERIFIERS[gameId];
+  if (!verify) return;
+
+  const { replay } = submission;
+  if (typeof replay !== 'object' || replay === null || !Array.isArray(replay.inputs)) {
+    throw new Error('A replay is required for this game');
+  }
+  if (replay.seed !== getSeedForDay(gameId, submission.dayKey)) {
+    throw new Error("Replay is not for this day's puzzle");
+  }
+  if ((replay.ticks ?? 0) > MAX_REPLAY_TICKS || replay.inputs.length > MAX_REPLAY_INPUTS) {
+    throw new Error('Replay is too long');
+  }
+
+  let outcome;
+  try {
+    outcome = verify(replay, submission.dayKey);
+  } catch (err) {
+    throw new Error(`Replay rejected: ${err instanceof Error ? err.message : 'invalid input'}`);
+  }
+  if (outcome.score !== submission.score || outcome.won !== submission.won) {
+    throw new Error('Score does not match the replay');
+  }
+}
+
+async function saveScore(db: D1Database, gameId: string, config: BoardConfig, s: ScoreSubmission) {
+  const { better } = direction(config);
+  // The name always follows the latest submission, so renaming by resubmitting sticks; the score
+  // and its timing only change when the new score beats the old one. SET reads the old row, so
+  // every CASE compares against the score being replaced.
+  const improved = `excluded.score ${better} scores.score`;
+  await db
+    .prepare(
+      `INSERT INTO scores (game_id, day_key, player_id, name, score, duration_ms, submitted_at)
+       VALUES (?1, ?2, ?3, ?4, ?5, ?6, ?7)
+       ON CONFLICT (game_id, day_key, player_id) DO UPDATE SET
+         name = excluded.name,
+         score = CASE WHEN ${improved} THEN excluded.score ELSE scores.score END,
+         duration_ms = CASE WHEN ${improved}
+           THEN excluded.duration_ms ELSE scores.duration_ms END,
+         submitted_at = CASE WHEN ${improved}
+           THEN excluded.submitted_at ELSE scores.submitted_at END`
+    )
+    .bind(gameId, s.dayKey, s.playerId, s.name, s.score, s.durationMs, Date.now())
+    .run();
+}
+
+async function getLeaderboard(
+  db: D1Database,
+  gameId: string,
+  config: BoardConfig,
+  dayKey: string,
+  limit: number,
+  playerId: string | null
+): Promise<Leaderboard> {
+  const { better, order } = direction(config);
+
+  const { results } = await db
+    .prepare(
+      `SELECT name, score, duration_ms AS durationMs FROM scores
+       WHERE game_id = ?1 AND day_key = ?2
+       ORDER BY score ${order}, duration_ms ASC, submitted_at ASC
+       LIMIT ?3`
+    )
+    .bind(gameId, dayKey, limit)
+    .all<Omit<LeaderboardEntry, 'rank'>>();
+
+  const totals = await db
+    .prepare('SELECT COUNT(*) AS total FROM scores WHERE game_id = ?1 AND day_key = ?2')
+    .bind(gameId, dayKey)
+    .first<{ total: number }>();
+  const total = totals?.total ?? 0;
+
+  let you: Leaderboard['you'] = null;
+  if (playerId) {
+    const standing = await db
+      .prepare(
+        `SELECT mine.score AS score,
+           (SELECT COUNT(*) FROM scores s WHERE s.game_id = ?1 AND s.day_key = ?2
+              AND s.score ${better} mine.score) AS ahead,
+           (SELECT COUNT(*) FROM scores s WHERE s.game_id = ?1 AND s.day_key = ?2
+              AND mine.score ${better} s.score) AS behind
+         FROM scores mine
+         WHERE mine.game_id = ?1 AND mine.day_key = ?2 AND mine.player_id = ?3`
+      )
+      .bind(gameId, dayKey, playerId)
+      .first<{ score: number; ahead: number; behind: number }>();
+    if (standing) {
+      you = {
+        rank: standing.ahead + 1,
+        score: standing.score,
+        percentile: Math.round((standing.behind / total) * 100),
+      };
+    }
+  }
+
+  return {
+    gameId,
+    dayKey,
+    total,
+    // Ties share a rank, like the player's own standing
+    entries: results.map((entry) => ({
+      ...entry,
+      rank: results.findIndex((other) => other.score === entry.score) + 1,
+    })),
+    you,
+  };
+}
+
+// GET /api/leaderboard/:gameId?day=YYYY-MM-DD&limit=10&player=<id>
+export async function onRequestGet({ request, env, params }: Context): Promise<Response> {
+  const gameId = String(params.gameId);
+  const config = BOARDS[gameId];
+  if (!config) return json({ error: `Unknown game ${gameId}` }, 404);
+
+  const url = new URL(request.url);
+  const dayKey = url.searchParams.get('day') ?? getDayKey(new Date());
+  if (!DAY_KEY_PATTERN.test(dayKey)) return badRequest('Invalid day');
+  const limit = parseLimit(url.searchParams.get('limit'));
+
+  const board = await getLeaderboard(
+    env.DB,
+    gameId,
+    config,
+    dayKey,
+    limit,
+    url.searchParams.get('player')
+  );
+  return json(board);
+}
+
+// POST /api/leaderboard/:gameId with a ScoreSubmission body. Replies with the updated board.
+export async function onRequestPost({ request, env, params }: Context): Promise<Response> {
+  const gameId = String(params.gameId);
+  const config = BOARDS[gameId];
+  if (!config) return json({ error: `Unknown game ${gameId}` }, 404);
+
+  let submission: ScoreSubmission;
+  try {
+    submission = parseSubmission(await request.json(), config, new Date());
+    verifySubmission(gameId, submission);
+  } catch (err) {
+    return badRequest(err instanceof Error ? err.message : 'Invalid submission');
+  }
+
+  await saveScore(env.DB, gameId, config, submission);
+  const board = await getLeaderboard(
+    env.DB,
+    gameId,
+    config,
+    submission.dayKey,
+    DEFAULT_LIMIT,
+    submission.playerId
+  );
+  return json(board, 201);
+}
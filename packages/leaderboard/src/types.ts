@@ -0,0 +1,41 @@
+import type { GameReplay } from '@advent/contract';
+
+export interface ScoreSubmission {
+  playerId: string;
+  name: string;
+  dayKey: string;
+  score: number;
+  won: boolean;
+  durationMs: number;
+  // Required for games with a verifier, ignored otherwise
+  replay?: GameReplay;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  name: string;
+  score: number;
+  durationMs: number;
+}
+
+export interface PlayerStanding {
+  rank: number;
+  score: number;
+  // Share of the board this score beats, 0–100
+  percentile: number;
+}
+
+export interface Leaderboard {
+  gameId: string;
+  dayKey: string;
+  total: number;
+  entries: LeaderboardEntry[];
+  you: PlayerStanding | null;
+}
+
+export interface BoardConfig {
+  // Nomoji scores are seconds taken, so a smaller number ranks higher
+  lowerIsBetter: boolean;
+  // Games where a loss always scores 0 would otherwise flood the bottom of the board
+  winsOnly: boolean;
+}
@@ -0,0 +1,15 @@
+import type { GameReplay, ReplayOutcome } from '@advent/contract';
+import { replaySnakle, type SnakleInput } from '@games/game-01/engine';
+import { getDifficultyForDay } from '@games/game-01/levels';
+import { replayFroggle, type FroggleInput } from '@games/game-04/rules';
+import { replayMastermind, type MastermindInput } from '@games/game-05/rules';
+
+// Deterministic games whose scores are recomputed from the submitted replay.
+// The replays come straight off the network, so each one throws on anything it can't follow.
+// The day is passed along for games whose rules change with it.
+export const VERIFIERS: Record<string, (replay: GameReplay, dayKey: string) => ReplayOutcome> = {
+  snakle: (replay, dayKey) =>
+    replaySnakle(replay as GameReplay<SnakleInput>, getDifficultyForDay(dayKey), 'daily'),
+  froggle: (replay) => replayFroggle(replay as GameReplay<FroggleInput>),
+  mastermind: (replay) => replayMastermind(replay as GameReplay<MastermindInput>),
+};
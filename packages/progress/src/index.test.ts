@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GameResult } from '@advent/contract';
+import { getBestScore, getGameRecord, recordResult } from './index';
+
+const NOMOJI = { lowerIsBetter: true, winsOnly: true };
+
+const result = (score: number, won: boolean): GameResult => ({
+  gameId: 'nomoji',
+  score,
+  won,
+  durationMs: score * 1000,
+  attempts: 1,
+  stats: {},
+  shareText: '',
+});
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => void items.delete(key),
+    setItem: (key, value) => void items.set(key, value),
+  };
+}
+
+beforeEach(() => {
+  vi.stubGlobal('window', { localStorage: memoryStorage() });
+});
+
+describe('recordResult', () => {
+  it('keeps the lowest winning score where lower is better', () => {
+    recordResult(result(20, true), NOMOJI);
+    recordResult(result(12, true), NOMOJI);
+    recordResult(result(30, true), NOMOJI);
+
+    expect(getGameRecord('nomoji').bestScore).toBe(12);
+  });
+
+  it('leaves losses out of the best score', () => {
+    recordResult(result(0, false), NOMOJI);
+    expect(getGameRecord('nomoji').bestScore).toBeNull();
+
+    recordResult(result(15, true), NOMOJI);
+    recordResult(result(0, false), NOMOJI);
+    expect(getGameRecord('nomoji').bestScore).toBe(15);
+  });
+
+  it('keeps the highest score by default', () => {
+    recordResult(result(3, false));
+    recordResult(result(9, false));
+    recordResult(result(5, false));
+
+    expect(getGameRecord('nomoji').bestScore).toBe(9);
+  });
+});
+
+describe('getBestScore', () => {
+  it('returns null when no result counts', () => {
+    expect(getBestScore([], NOMOJI)).toBeNull();
+    expect(getBestScore([result(0, false)], NOMOJI)).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import type { GameResult } from '@advent/contract';
+import { getDayKey, getPuzzleNumber } from '@advent/seed';
+import {
+  emptyRecord,
+  migrate,
+  type GameRecord,
+  type ProgressData,
+  type StoredResult,
+} from './schema';
+
+export type { GameRecord, ProgressData, SavedGame, StoredResult } from './schema';
+
+export const STORAGE_KEY = 'advent-of-games:progress';
+
+// Keep enough history for stats without letting storage grow forever
+const MAX_RESULTS_PER_GAME = 100;
+
+const hasStorage = () => typeof window !== 'undefined' && !!window.localStorage;
+
+export function loadProgress(): ProgressData {
+  if (!hasStorage()) return migrate(null);
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return migrate(raw ? JSON.parse(raw) : null);
+  } catch (err) {
+    console.error('Failed to read saved progress', err);
+    return migrate(null);
+  }
+}
+
+function saveProgress(data: ProgressData) {
+  if (!hasStorage()) return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (err) {
+    console.error('Failed to save progress', err);
+  }
+}
+
+function updateRecord(gameId: string, update: (record: GameRecord) => GameRecord): GameRecord {
+  const data = loadProgress();
+  const record = update(data.games[gameId] ?? emptyRecord());
+  data.games[gameId] = record;
+  saveProgress(data);
+  return record;
+}
+
+export function getGameRecord(gameId: string): GameRecord {
+  return loadProgress().games[gameId] ?? emptyRecord();
+}
+
+// Which way a game's scores go. The leaderboard's BoardConfig has this shape, so a game's board
+// can be passed straight in.
+export interface ScoreOrder {
+  lowerIsBetter: boolean;
+  // Losses never count towards the best, e.g. Nomoji scores a loss 0 and times a win
+  winsOnly: boolean;
+}
+
+export const HIGHER_IS_BETTER: ScoreOrder = { lowerIsBetter: false, winsOnly: false };
+
+const pickBest = (best: number | null, score: number, order: ScoreOrder) =>
+  best === null || (order.lowerIsBetter ? score < best : score > best) ? score : best;
+
+export function getBestScore(
+  results: Pick<StoredResult, 'score' | 'won'>[],
+  order: ScoreOrder = HIGHER_IS_BETTER
+): number | null {
+  return results
+    .filter((result) => result.won || !order.winsOnly)
+    .reduce<number | null>((best, result) => pickBest(best, result.score, order), null);
+}
+
+export function recordResult(
+  result: GameResult,
+  order: ScoreOrder = HIGHER_IS_BETTER,
+  date: Date = new Date()
+): GameRecord {
+  return updateRecord(result.gameId, (record) => ({
+    attempts: record.attempts + 1,
+    bestScore:
+      result.won || !order.winsOnly
+        ? pickBest(record.bestScore, result.score, order)
+        : record.bestScore,
+    completed: record.completed || result.won,
+    lastPlayed: getDayKey(date),
+    results: [
+      ...record.results,
+      {
+        dayKey: getDayKey(date),
+        puzzle: getPuzzleNumber(date),
+        score: result.score,
+        won: result.won,
+        durationMs: result.durationMs,
+        attempts: result.attempts,
+        stats: result.stats,
+        finishedAt: date.getTime(),
+      },
+    ].slice(-MAX_RESULTS_PER_GAME),
+    inProgress: null,
+  }));
+}
+
+// In-progress state is tied to the seed, so yesterday's half-finished board never leaks into today
+export function saveGameState(gameId: string, seed: number, state: unknown) {
+  updateRecord(gameId, (record) => ({
+    ...record,
+    inProgress: { seed, savedAt: Date.now(), state },
+  }));
+}
+
+export function loadGameState<T>(gameId: string, seed: number): T | null {
+  const saved = getGameRecord(gameId).inProgress;
+  return saved && saved.seed === seed ? (saved.state as T) : null;
+}
+
+export function clearGameState(gameId: string) {
+  if (!getGameRecord(gameId).inProgress) return;
+  updateRecord(gameId, (record) => ({ ...record, inProgress: null }));
+}
+
+export { getAllResults, getStreaks, getWinRate, type StreakSummary } from './stats';
@@ -0,0 +1,70 @@
+import type { GameStats } from '@advent/contract';
+
+export const SCHEMA_VERSION = 1;
+
+export interface StoredResult {
+  dayKey: string;
+  puzzle: number;
+  score: number;
+  won: boolean;
+  durationMs: number;
+  attempts: number;
+  stats: GameStats;
+  finishedAt: number;
+}
+
+export interface SavedGame {
+  seed: number;
+  savedAt: number;
+  state: unknown;
+}
+
+export interface GameRecord {
+  attempts: number;
+  // Null until a result counts towards it
+  bestScore: number | null;
+  completed: boolean;
+  lastPlayed: string | null;
+  results: StoredResult[];
+  inProgress: SavedGame | null;
+}
+
+export interface ProgressData {
+  version: typeof SCHEMA_VERSION;
+  games: Record<string, GameRecord>;
+}
+
+export const emptyProgress = (): ProgressData => ({ version: SCHEMA_VERSION, games: {} });
+
+export const emptyRecord = (): GameRecord => ({
+  attempts: 0,
+  bestScore: null,
+  completed: false,
+  lastPlayed: null,
+  results: [],
+  inProgress: null,
+});
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades data from version n to n + 1. Bump SCHEMA_VERSION and add an entry
+// here whenever the stored shape changes.
+const MIGRATIONS: Record<number, Migration> = {};
+
+export function migrate(raw: unknown): ProgressData {
+  if (!raw || typeof raw !== 'object') return emptyProgress();
+
+  let data = raw as Record<string, unknown>;
+  let version = typeof data.version === 'number' ? data.version : 0;
+  // Data written by a newer build can't be read safely, so start over rather than corrupt it
+  if (version > SCHEMA_VERSION) return emptyProgress();
+
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return emptyProgress();
+    data = step(data);
+    version++;
+  }
+
+  return { version: SCHEMA_VERSION, games: (data.games as ProgressData['games']) ?? {} };
+}
@@ -0,0 +1,45 @@
+import { getDayKey } from '@advent/seed';
+import type { ProgressData, StoredResult } from './schema';
+
+export interface StreakSummary {
+  daysPlayed: number;
+  currentStreak: number;
+  longestStreak: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const dayNumber = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / MS_PER_DAY);
+};
+
+export function getAllResults(data: ProgressData): StoredResult[] {
+  return Object.values(data.games).flatMap((record) => record.results);
+}
+
+// A day counts towards the streak if any game was finished on it. The current streak
+// survives until the end of today, so it isn't broken just because today isn't played yet.
+export function getStreaks(data: ProgressData, today: Date = new Date()): StreakSummary {
+  const days = [...new Set(getAllResults(data).map((r) => dayNumber(r.dayKey)))].sort(
+    (a, b) => a - b
+  );
+
+  let longestStreak = 0;
+  let run = 0;
+  for (let i = 0; i < days.length; i++) {
+    run = i > 0 && days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  }
+
+  const todayNumber = dayNumber(getDayKey(today));
+  const last = days[days.length - 1];
+  const currentStreak = last === todayNumber || last === todayNumber - 1 ? run : 0;
+
+  return { daysPlayed: days.length, currentStreak, longestStreak };
+}
+
+export function getWinRate(results: StoredResult[]): number | null {
+  if (results.length === 0) return null;
+  return results.filter((r) => r.won).length / results.length;
+}
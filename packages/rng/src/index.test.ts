@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { Rng } from './index';
+
+const draw = (rng: Rng, count: number) => Array.from({ length: count }, () => rng.nextUint32());
+
+describe('Rng', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(draw(new Rng(42), 20)).toEqual(draw(new Rng(42), 20));
+    expect(draw(new Rng('snakle:2025-12-01'), 20)).toEqual(draw(new Rng('snakle:2025-12-01'), 20));
+    expect(draw(new Rng(42), 20)).not.toEqual(draw(new Rng(43), 20));
+  });
+});
+
+describe('fork', () => {
+  it('is not shifted by draws from the parent or a sibling', () => {
+    const fresh = new Rng(42);
+    const expected = draw(fresh.fork('weather'), 20);
+
+    const used = new Rng(42);
+    draw(used, 100);
+    draw(used.fork('hay'), 100);
+    expect(draw(used.fork('weather'), 20)).toEqual(expected);
+  });
+
+  it('gives each label its own sequence', () => {
+    const rng = new Rng(42);
+    expect(draw(rng.fork('weather'), 20)).not.toEqual(draw(rng.fork('hay'), 20));
+    expect(draw(rng.fork('weather'), 20)).not.toEqual(draw(new Rng(42), 20));
+  });
+});
+
+describe('int', () => {
+  it('stays within the bounds and reaches both ends', () => {
+    const rng = new Rng(7);
+    const seen = new Set<number>();
+    for (let i = 0; i < 1000; i++) {
+      const value = rng.int(-2, 3);
+      expect(Number.isInteger(value)).toBe(true);
+      seen.add(value);
+    }
+    expect([...seen].sort((a, b) => a - b)).toEqual([-2, -1, 0, 1, 2, 3]);
+  });
+
+  it('returns the only value of a single-value range', () => {
+    expect(new Rng(7).int(5, 5)).toBe(5);
+  });
+
+  it('rejects an empty range', () => {
+    expect(() => new Rng(7).int(3, 2)).toThrow(RangeError);
+  });
+});
+
+describe('shuffle', () => {
+  it('returns a reordered copy and leaves the input alone', () => {
+    const items = Array.from({ length: 20 }, (_, i) => i);
+    const shuffled = new Rng(42).shuffle(items);
+
+    expect(items).toEqual(Array.from({ length: 20 }, (_, i) => i));
+    expect(shuffled).not.toBe(items);
+    expect(shuffled).not.toEqual(items);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+  });
+});
@@ -0,0 +1,107 @@
+import { hashString } from '@advent/seed';
+
+export interface Weighted<T> {
+  value: T;
+  weight: number;
+}
+
+const UINT32 = 0x100000000;
+
+// splitmix32, used to spread a single 32-bit seed across the generator state
+function splitmix32(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x9e3779b9) >>> 0;
+    let z = state;
+    z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+    z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+    return (z ^ (z >>> 15)) >>> 0;
+  };
+}
+
+// Seeded PRNG (sfc32). Same seed, same sequence, on every platform.
+export class Rng {
+  readonly seed: number;
+  private a: number;
+  private b: number;
+  private c: number;
+  private d: number;
+
+  constructor(seed: number | string) {
+    this.seed = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+    const mix = splitmix32(this.seed);
+    this.a = mix();
+    this.b = mix();
+    this.c = mix();
+    this.d = mix();
+    // Discard the first outputs so nearby seeds diverge
+    for (let i = 0; i < 12; i++) this.nextUint32();
+  }
+
+  nextUint32(): number {
+    const t = (((this.a + this.b) >>> 0) + this.d) >>> 0;
+    this.d = (this.d + 1) >>> 0;
+    this.a = this.b ^ (this.b >>> 9);
+    this.b = (this.c + (this.c << 3)) >>> 0;
+    this.c = (this.c << 21) | (this.c >>> 11);
+    this.c = (this.c + t) >>> 0;
+    return t;
+  }
+
+  // Float in [0, 1)
+  next(): number {
+    return this.nextUint32() / UINT32;
+  }
+
+  // Integer in [min, max], inclusive. Uses rejection sampling so every value is equally likely.
+  int(min: number, max: number): number {
+    const range = max - min + 1;
+    if (range <= 0 || range > UINT32) throw new RangeError(`Invalid range [${min}, ${max}]`);
+    const limit = UINT32 - (UINT32 % range);
+    let x = this.nextUint32();
+    while (x >= limit) x = this.nextUint32();
+    return min + (x % range);
+  }
+
+  // Float in [min, max)
+  float(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) throw new RangeError('Cannot pick from an empty array');
+    return items[this.int(0, items.length - 1)];
+  }
+
+  // Fisher–Yates; returns a shuffled copy
+  shuffle<T>(items: readonly T[]): T[] {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = this.int(0, i);
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  weightedPick<T>(items: readonly Weighted<T>[]): T {
+    const total = items.reduce((sum, item) => sum + Math.max(0, item.weight), 0);
+    if (total <= 0) throw new RangeError('weightedPick needs at least one positive weight');
+    let roll = this.next() * total;
+    for (const item of items) {
+      roll -= Math.max(0, item.weight);
+      if (roll < 0) return item.value;
+    }
+    // Floating point rounding can leave a sliver; it belongs to the last weighted item
+    return [...items].reverse().find((item) => item.weight > 0)!.value;
+  }
+
+  // Independent sub-stream. Derived from the seed, not the current state, so drawing more
+  // numbers from one stream never shifts another.
+  fork(label: string): Rng {
+    return new Rng(`${this.seed}:${label}`);
+  }
+}
@@ -0,0 +1,61 @@
+// Everyone gets the same puzzle on the same day: the day rolls over at midnight in this zone
+export const SEED_TIME_ZONE = 'UTC';
+
+// Puzzle #1 is the first day of the calendar
+export const FIRST_PUZZLE_DAY = '2025-12-01';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// 32-bit FNV-1a with a murmur3 finalizer, so similar strings land far apart
+export function hashString(str: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h = Math.imul(h ^ str.charCodeAt(i), 0x01000193);
+  }
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+// YYYY-MM-DD of `date` in the seed time zone
+export function getDayKey(date: Date = new Date(), timeZone: string = SEED_TIME_ZONE): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+const dayKeyToUtc = (dayKey: string) => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+export function getPuzzleNumber(date: Date = new Date()): number {
+  return getPuzzleNumberForDay(getDayKey(date));
+}
+
+// Same number as getPuzzleNumber, for a day the seed was already picked for
+export function getPuzzleNumberForDay(dayKey: string): number {
+  return Math.round((dayKeyToUtc(dayKey) - dayKeyToUtc(FIRST_PUZZLE_DAY)) / MS_PER_DAY) + 1;
+}
+
+export function getDailySeed(gameId: string, date: Date = new Date()): number {
+  return getSeedForDay(gameId, getDayKey(date));
+}
+
+// Same seed as getDailySeed, for callers that already hold a day key (e.g. the leaderboard API)
+export function getSeedForDay(gameId: string, dayKey: string): number {
+  return hashString(`${gameId}:${dayKey}`);
+}
+
+// Games fall back to today's seed when the host doesn't pass one
+export function resolveSeed(gameId: string, seed?: number): number {
+  return seed ?? getDailySeed(gameId);
+}
+
+// ...and to today's day key, for anything else that depends on the day
+export function resolveDayKey(dayKey?: string): string {
+  return dayKey ?? getDayKey();
+}